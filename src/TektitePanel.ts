@@ -1,31 +1,68 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { handleMessage } from './messageHandler';
+import { handleMessage, MessageSource, releaseMessageSource } from './messageHandler';
+import { toWorkspacePath } from './workspacePaths';
+import { getActiveInterpreter } from './pythonEnvironments';
+import { getModifiedTime } from './documentEdits';
+import { WorkspaceWatcher } from './workspaceWatcher';
+import { isInScope, isSameScope, PanelScope, scopeFolder, scopeTitle, WORKSPACE_SCOPE } from './panelScope';
+
+const CHANGE_DEBOUNCE_MS = 300;
+const CURSOR_DEBOUNCE_MS = 150;
 
 export class TektitePanel {
-    public static currentPanel: TektitePanel | undefined;
     public static readonly viewType = 'tektite.graphPanel';
+    private static readonly _panels: TektitePanel[] = [];
+    private static _activePanel: TektitePanel | undefined;
+    private static _nextId = 1;
 
     private readonly _panel: vscode.WebviewPanel;
     private readonly _extensionUri: vscode.Uri;
     private readonly _context: vscode.ExtensionContext;
+    private readonly _source: MessageSource;
     private _disposables: vscode.Disposable[] = [];
+    // Messages posted before the webview has loaded, sent once it first messages back
+    private _pendingMessages: any[] | undefined = [];
+    private _cursorTimer: NodeJS.Timeout | undefined;
+    private readonly _changeTimers = new Map<string, NodeJS.Timeout>();
+
+    public static get panels(): readonly TektitePanel[] {
+        return TektitePanel._panels;
+    }
 
-    public static createOrShow(extensionUri: vscode.Uri, context: vscode.ExtensionContext) {
-        const column = vscode.window.activeTextEditor
+    /**
+     * The panel focused last. Commands run from the palette or a keybinding act on it.
+     */
+    public static get activePanel(): TektitePanel | undefined {
+        return TektitePanel._activePanel;
+    }
+
+    /**
+     * Shows the panel with this scope, creating it when there is none. Panels with other
+     * scopes stay open beside it.
+     */
+    public static createOrShow(
+        extensionUri: vscode.Uri,
+        context: vscode.ExtensionContext,
+        scope: PanelScope = WORKSPACE_SCOPE,
+        viewColumn?: vscode.ViewColumn
+    ): TektitePanel {
+        const column = viewColumn ?? (vscode.window.activeTextEditor
             ? vscode.window.activeTextEditor.viewColumn
-            : undefined;
+            : undefined);
 
-        // If we already have a panel, show it
-        if (TektitePanel.currentPanel) {
-            TektitePanel.currentPanel._panel.reveal(column);
-            return;
+        // If we already have a panel for this scope, show it
+        const existing = TektitePanel._panels.find(p => isSameScope(p._source.scope, scope));
+        if (existing) {
+            existing._panel.reveal(column);
+            TektitePanel._activePanel = existing;
+            return existing;
         }
 
         // Create a new panel in the main editor area
         const panel = vscode.window.createWebviewPanel(
             TektitePanel.viewType,
-            'Tektite - Code Graph',
+            scopeTitle(scope),
             column || vscode.ViewColumn.One,
             {
                 enableScripts: true,
@@ -37,17 +74,26 @@ export class TektitePanel {
             }
         );
 
-        TektitePanel.currentPanel = new TektitePanel(panel, extensionUri, context);
+        const tektitePanel = new TektitePanel(panel, extensionUri, context, scope);
+        TektitePanel._panels.push(tektitePanel);
+        TektitePanel._activePanel = tektitePanel;
+        return tektitePanel;
     }
 
     private constructor(
         panel: vscode.WebviewPanel,
         extensionUri: vscode.Uri,
-        context: vscode.ExtensionContext
+        context: vscode.ExtensionContext,
+        scope: PanelScope
     ) {
         this._panel = panel;
         this._extensionUri = extensionUri;
         this._context = context;
+        this._source = {
+            id: TektitePanel._nextId++,
+            scope,
+            postMessage: (message: any) => this._panel.webview.postMessage(message)
+        };
 
         // Set the webview's initial html content
         this._update();
@@ -55,10 +101,20 @@ export class TektitePanel {
         // Listen for when the panel is disposed
         this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
 
-        // Handle messages from the webview
+        this._panel.onDidChangeViewState((e) => {
+            if (e.webviewPanel.active) {
+                TektitePanel._activePanel = this;
+            }
+        }, null, this._disposables);
+
+        // Handle messages from the webview; replies and streamed data go back to this panel only
         this._panel.webview.onDidReceiveMessage(
             async (message) => {
-                const response = await handleMessage(message, this._context);
+                const pendingMessages = this._pendingMessages;
+                this._pendingMessages = undefined;
+                pendingMessages?.forEach(pending => this._panel.webview.postMessage(pending));
+
+                const response = await handleMessage(message, this._context, this._source);
                 if (response) {
                     this._panel.webview.postMessage(response);
                 }
@@ -67,23 +123,158 @@ export class TektitePanel {
             this._disposables
         );
 
-        // Listen for file changes in workspace
+        // Listen for file changes in workspace; typing sends the document once it pauses, not per keystroke
         const fileWatcher = vscode.workspace.onDidChangeTextDocument((e) => {
-            if (e.document.uri.scheme === 'file') {
+            const document = e.document;
+            const workspacePath = document.uri.scheme === 'file' ? toWorkspacePath(document.uri) : undefined;
+            if (!workspacePath || e.contentChanges.length === 0 || !isInScope(scope, workspacePath)) {
+                return;
+            }
+
+            clearTimeout(this._changeTimers.get(workspacePath));
+            this._changeTimers.set(workspacePath, setTimeout(() => {
+                this._changeTimers.delete(workspacePath);
                 this._panel.webview.postMessage({
                     type: 'fileChanged',
                     payload: {
-                        path: e.document.uri.fsPath,
-                        content: e.document.getText()
+                        path: workspacePath,
+                        content: document.getText()
+                    }
+                });
+            }, CHANGE_DEBOUNCE_MS));
+        });
+        this._disposables.push(fileWatcher, {
+            dispose: () => this._changeTimers.forEach(timer => clearTimeout(timer))
+        });
+
+        // Files created, deleted, renamed or changed on disk
+        const workspaceWatcher = new WorkspaceWatcher(changes => {
+            this._panel.webview.postMessage({ type: 'workspaceFilesChanged', payload: changes });
+        }, scopeFolder(scope));
+        this._disposables.push(workspaceWatcher);
+
+        // Saves made in the editor clear the graph's unsaved state and move its conflict baseline
+        const saveWatcher = vscode.workspace.onDidSaveTextDocument(async (document) => {
+            const workspacePath = document.uri.scheme === 'file' ? toWorkspacePath(document.uri) : undefined;
+            if (workspacePath && isInScope(scope, workspacePath)) {
+                this._panel.webview.postMessage({
+                    type: 'fileSaved',
+                    payload: {
+                        path: workspacePath,
+                        content: document.getText(),
+                        mtime: await getModifiedTime(document.uri)
                     }
                 });
             }
         });
-        this._disposables.push(fileWatcher);
+        this._disposables.push(saveWatcher);
+
+        // Keep the interpreter shown in the toolbar in sync with the setting
+        const configWatcher = vscode.workspace.onDidChangeConfiguration((e) => {
+            if (e.affectsConfiguration('tektite.pythonPath')) {
+                this._panel.webview.postMessage({
+                    type: 'interpreterChanged',
+                    payload: getActiveInterpreter()
+                });
+            }
+            if (e.affectsConfiguration('tektite.followEditor')) {
+                this._postFollowEditor();
+            }
+        });
+        this._disposables.push(configWatcher);
+
+        // Follow mode: the graph selects the function at the editor cursor as it moves
+        this._postFollowEditor();
+        const selectionWatcher = vscode.window.onDidChangeTextEditorSelection((e) => this._scheduleCursorUpdate(e.textEditor));
+        const activeEditorWatcher = vscode.window.onDidChangeActiveTextEditor((editor) => this._scheduleCursorUpdate(editor));
+        this._disposables.push(selectionWatcher, activeEditorWatcher, {
+            dispose: () => clearTimeout(this._cursorTimer)
+        });
+
+        // Embeddings from another source or model are not comparable; the webview recomputes them
+        const embeddingSettings = ['tektite.embeddings', 'tektite.ai.provider', 'tektite.ai.baseUrl', 'tektite.ai.embeddingModel'];
+        const embeddingSettingsWatcher = vscode.workspace.onDidChangeConfiguration((e) => {
+            if (embeddingSettings.some(section => e.affectsConfiguration(section))) {
+                this._panel.webview.postMessage({ type: 'embeddingsInvalidated' });
+            }
+        });
+        // With tektite.embeddings.source "auto", setting or removing the API key switches source
+        const apiKeyWatcher = this._context.secrets.onDidChange(() => {
+            this._panel.webview.postMessage({ type: 'embeddingsInvalidated' });
+        });
+        this._disposables.push(embeddingSettingsWatcher, apiKeyWatcher);
+    }
+
+    private _postFollowEditor() {
+        const enabled = vscode.workspace.getConfiguration('tektite').get<boolean>('followEditor', false);
+        this._postWhenReady({ type: 'followEditorChanged', payload: { enabled } });
+        if (enabled) {
+            this._scheduleCursorUpdate(vscode.window.activeTextEditor);
+        }
+    }
+
+    // Cursor moves arrive per keystroke; only where it settles is sent
+    private _scheduleCursorUpdate(editor: vscode.TextEditor | undefined) {
+        if (!editor || !vscode.workspace.getConfiguration('tektite').get<boolean>('followEditor', false)) {
+            return;
+        }
+        const workspacePath = editor.document.uri.scheme === 'file' ? toWorkspacePath(editor.document.uri) : undefined;
+        if (!workspacePath || !isInScope(this._source.scope, workspacePath)) {
+            return;
+        }
+
+        clearTimeout(this._cursorTimer);
+        this._cursorTimer = setTimeout(() => {
+            this._postWhenReady({
+                type: 'editorCursor',
+                payload: { path: workspacePath, line: editor.selection.active.line + 1 }
+            });
+        }, CURSOR_DEBOUNCE_MS);
+    }
+
+    private _postWhenReady(message: any) {
+        if (this._pendingMessages) {
+            this._pendingMessages.push(message);
+        } else {
+            this._panel.webview.postMessage(message);
+        }
+    }
+
+    public get scope(): PanelScope {
+        return this._source.scope;
+    }
+
+    /**
+     * Tells the webview to recompute every embedding, e.g. after the embedding cache was cleared.
+     */
+    public invalidateEmbeddings() {
+        this._panel.webview.postMessage({ type: 'embeddingsInvalidated' });
+    }
+
+    /**
+     * Saves the file of the selected node, or with `all` every file with unsaved graph edits.
+     */
+    public requestSave(all: boolean) {
+        this._panel.webview.postMessage({ type: 'saveRequested', payload: { all } });
+    }
+
+    /**
+     * Selects and centres the node at a line of a file, e.g. the function under the cursor.
+     * A panel that is still loading selects it once the file is in the graph.
+     */
+    public showInGraph(filePath: string, line: number) {
+        this._postWhenReady({ type: 'showInGraph', payload: { path: filePath, line } });
     }
 
     public dispose() {
-        TektitePanel.currentPanel = undefined;
+        const index = TektitePanel._panels.indexOf(this);
+        if (index > -1) {
+            TektitePanel._panels.splice(index, 1);
+        }
+        if (TektitePanel._activePanel === this) {
+            TektitePanel._activePanel = TektitePanel._panels[TektitePanel._panels.length - 1];
+        }
+        releaseMessageSource(this._source);
 
         this._panel.dispose();
 
@@ -97,7 +288,7 @@ export class TektitePanel {
 
     private _update() {
         const webview = this._panel.webview;
-        this._panel.title = 'Tektite - Code Graph';
+        this._panel.title = scopeTitle(this._source.scope);
         this._panel.webview.html = this._getHtmlForWebview(webview);
     }
 
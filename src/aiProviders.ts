@@ -0,0 +1,232 @@
+import * as vscode from 'vscode';
+
+export type AIProviderId = 'gemini' | 'openai';
+
+export interface AIProvider {
+    id: AIProviderId;
+    displayName: string;
+    embeddingModel: string;
+    embed(content: string): Promise<number[] | null>;
+    // One request for many texts; results are in input order
+    embedBatch(contents: string[]): Promise<Array<number[] | null>>;
+    // Returns the raw response text; JSON when a schema is given
+    generate(prompt: string, schema?: any): Promise<string | undefined>;
+}
+
+export interface AISettings {
+    provider: AIProviderId;
+    baseUrl: string;
+    chatModel: string;
+    embeddingModel: string;
+}
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+const PROVIDER_DEFAULTS: Record<AIProviderId, { displayName: string; chatModel: string; embeddingModel: string; secret: string }> = {
+    gemini: {
+        displayName: 'Gemini',
+        chatModel: 'gemini-2.0-flash',
+        embeddingModel: 'text-embedding-004',
+        secret: 'tektite.geminiApiKey'
+    },
+    openai: {
+        displayName: 'OpenAI-compatible',
+        chatModel: 'gpt-4o-mini',
+        embeddingModel: 'text-embedding-3-small',
+        secret: 'tektite.openaiApiKey'
+    }
+};
+
+export function getAISettings(): AISettings {
+    const config = vscode.workspace.getConfiguration('tektite.ai');
+    const provider = config.get<AIProviderId>('provider', 'gemini') === 'openai' ? 'openai' : 'gemini';
+    const defaults = PROVIDER_DEFAULTS[provider];
+
+    return {
+        provider,
+        baseUrl: (config.get<string>('baseUrl', '') || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, ''),
+        chatModel: config.get<string>('chatModel', '') || defaults.chatModel,
+        embeddingModel: config.get<string>('embeddingModel', '') || defaults.embeddingModel
+    };
+}
+
+export function getProviderDisplayName(provider: AIProviderId): string {
+    return PROVIDER_DEFAULTS[provider].displayName;
+}
+
+// Secret storage key of the provider's API key
+export function getApiKeySecret(provider: AIProviderId): string {
+    return PROVIDER_DEFAULTS[provider].secret;
+}
+
+/**
+ * Gemini always needs a key. OpenAI-compatible endpoints only do when they are hosted
+ * by OpenAI; local servers such as Ollama or llama.cpp usually run without one.
+ */
+export function requiresApiKey(settings: AISettings): boolean {
+    return settings.provider === 'gemini' || settings.baseUrl === DEFAULT_OPENAI_BASE_URL;
+}
+
+function geminiProvider(settings: AISettings, apiKey: string): AIProvider {
+    return {
+        id: 'gemini',
+        displayName: getProviderDisplayName('gemini'),
+        embeddingModel: settings.embeddingModel,
+
+        async embed(content) {
+            return (await this.embedBatch([content]))[0];
+        },
+
+        async embedBatch(contents) {
+            // Dynamic import to avoid bundling issues
+            const { GoogleGenAI } = await import('@google/genai');
+            const ai = new GoogleGenAI({ apiKey });
+
+            const result = await ai.models.embedContent({
+                model: settings.embeddingModel,
+                contents
+            });
+
+            return contents.map((_, i) => result.embeddings?.[i]?.values ?? null);
+        },
+
+        async generate(prompt, schema) {
+            const { GoogleGenAI } = await import('@google/genai');
+            const ai = new GoogleGenAI({ apiKey });
+
+            const config: any = {};
+            if (schema) {
+                config.responseMimeType = 'application/json';
+                config.responseSchema = schema;
+            }
+
+            const result = await ai.models.generateContent({
+                model: settings.chatModel,
+                contents: prompt,
+                config
+            });
+
+            return result.text;
+        }
+    };
+}
+
+/**
+ * Gemini schemas spell types in upper case ("OBJECT", "STRING"); JSON Schema wants lower case.
+ */
+function toJsonSchema(schema: any): any {
+    if (Array.isArray(schema)) {
+        return schema.map(toJsonSchema);
+    }
+    if (!schema || typeof schema !== 'object') {
+        return schema;
+    }
+
+    const result: any = {};
+    Object.entries(schema).forEach(([key, value]) => {
+        result[key] = key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value);
+    });
+    return result;
+}
+
+function openAICompatibleProvider(settings: AISettings, apiKey: string | undefined): AIProvider {
+    const post = async (endpoint: string, body: object): Promise<any> => {
+        const response = await fetch(`${settings.baseUrl}${endpoint}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+            },
+            body: JSON.stringify(body)
+        });
+
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            // status lets callers tell rate limits and server errors (worth retrying) from the rest
+            throw Object.assign(
+                new Error(`${settings.baseUrl}${endpoint} returned ${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 300)}` : ''}`),
+                { status: response.status }
+            );
+        }
+        return response.json();
+    };
+
+    return {
+        id: 'openai',
+        displayName: getProviderDisplayName('openai'),
+        embeddingModel: settings.embeddingModel,
+
+        async embed(content) {
+            return (await this.embedBatch([content]))[0];
+        },
+
+        async embedBatch(contents) {
+            const result = await post('/embeddings', {
+                model: settings.embeddingModel,
+                input: contents
+            });
+
+            const embeddings: Array<number[] | null> = contents.map(() => null);
+            (result.data ?? []).forEach((item: { index: number; embedding: number[] }) => {
+                embeddings[item.index] = item.embedding;
+            });
+            return embeddings;
+        },
+
+        async generate(prompt, schema) {
+            const result = await post('/chat/completions', {
+                model: settings.chatModel,
+                messages: [{ role: 'user', content: prompt }],
+                ...(schema ? {
+                    response_format: {
+                        type: 'json_schema',
+                        json_schema: { name: 'response', schema: toJsonSchema(schema) }
+                    }
+                } : {})
+            });
+
+            return result.choices?.[0]?.message?.content ?? undefined;
+        }
+    };
+}
+
+/**
+ * Builds the provider selected by tektite.ai.provider. Returns null when it needs an
+ * API key that has not been set.
+ */
+export async function createAIProvider(secrets: vscode.SecretStorage): Promise<AIProvider | null> {
+    const settings = getAISettings();
+    const apiKey = await secrets.get(getApiKeySecret(settings.provider));
+
+    if (settings.provider === 'openai') {
+        return apiKey || !requiresApiKey(settings) ? openAICompatibleProvider(settings, apiKey) : null;
+    }
+    return apiKey ? geminiProvider(settings, apiKey) : null;
+}
+
+/**
+ * Prompts for the API key of the selected provider. An empty value removes the stored key.
+ */
+export async function promptForApiKey(secrets: vscode.SecretStorage): Promise<void> {
+    const settings = getAISettings();
+    const displayName = getProviderDisplayName(settings.provider);
+    const apiKey = await vscode.window.showInputBox({
+        prompt: settings.provider === 'openai'
+            ? `Enter the API key for ${settings.baseUrl} (leave empty if the server needs none)`
+            : `Enter your ${displayName} API Key`,
+        password: true,
+        placeHolder: 'API Key will be stored securely'
+    });
+
+    if (apiKey === undefined) {
+        return;
+    }
+
+    if (apiKey) {
+        await secrets.store(getApiKeySecret(settings.provider), apiKey);
+        vscode.window.showInformationMessage(`Tektite: ${displayName} API Key saved successfully!`);
+    } else {
+        await secrets.delete(getApiKeySecret(settings.provider));
+        vscode.window.showInformationMessage(`Tektite: ${displayName} API Key removed.`);
+    }
+}
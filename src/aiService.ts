@@ -1,31 +1,83 @@
 import * as vscode from 'vscode';
+import { AIProvider, createAIProvider, getAISettings, getProviderDisplayName } from './aiProviders';
+import { embedLocally, LOCAL_EMBEDDING_MODEL } from './localEmbeddings';
+import { EmbeddingCache } from './embeddingCache';
 
-const API_KEY_SECRET = 'tektite.geminiApiKey';
+export type EmbeddingSource = 'auto' | 'local' | 'remote';
 
-export async function getEmbedding(
-    secrets: vscode.SecretStorage,
-    content: string
-): Promise<number[] | null> {
-    const apiKey = await secrets.get(API_KEY_SECRET);
+export interface EmbeddingResult {
+    embedding: number[];
+    model: string; // Vectors are only comparable when they come from the same model
+}
+
+export function getEmbeddingSource(): EmbeddingSource {
+    return vscode.workspace
+        .getConfiguration('tektite.embeddings')
+        .get<EmbeddingSource>('source', 'auto');
+}
+
+async function getProvider(secrets: vscode.SecretStorage): Promise<AIProvider | null> {
+    const provider = await createAIProvider(secrets);
 
-    if (!apiKey) {
+    if (!provider) {
         vscode.window.showWarningMessage(
-            'Tektite: Gemini API key not set. Use "Tektite: Set Gemini API Key" command.'
+            `Tektite: ${getProviderDisplayName(getAISettings().provider)} API key not set. Use "Tektite: Set API Key" command.`
         );
+    }
+    return provider;
+}
+
+const MAX_RETRIES = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * The provider to embed with, or null for offline embeddings (see localEmbeddings.ts):
+ * tektite.embeddings.source is "local", or "auto" and the provider has no API key.
+ * With "remote" and no API key, warns and returns undefined.
+ */
+async function getEmbeddingProvider(secrets: vscode.SecretStorage): Promise<AIProvider | null | undefined> {
+    const source = getEmbeddingSource();
+    if (source === 'local') {
         return null;
     }
+    if (source === 'auto') {
+        return createAIProvider(secrets);
+    }
+    return (await getProvider(secrets)) ?? undefined;
+}
 
-    try {
-        // Dynamic import to avoid bundling issues
-        const { GoogleGenAI } = await import('@google/genai');
-        const ai = new GoogleGenAI({ apiKey });
+/**
+ * Embeds with the AI provider or offline, depending on tektite.embeddings.source.
+ * Provider embeddings are looked up in and added to the cache, when one is given.
+ */
+export async function getEmbedding(
+    secrets: vscode.SecretStorage,
+    content: string,
+    cache?: EmbeddingCache
+): Promise<EmbeddingResult | null> {
+    const provider = await getEmbeddingProvider(secrets);
 
-        const result = await ai.models.embedContent({
-            model: 'text-embedding-004',
-            contents: content
-        });
+    if (provider === undefined) {
+        return null;
+    }
+    if (provider === null) {
+        return { embedding: embedLocally(content), model: LOCAL_EMBEDDING_MODEL };
+    }
+
+    // Offline embeddings are cheaper to recompute than to store
+    const model = `${provider.id}:${provider.embeddingModel}`;
+    const key = EmbeddingCache.key(model, content);
+    const cached = cache?.get(key);
+    if (cached) {
+        return { embedding: cached, model };
+    }
 
-        return result.embeddings?.[0]?.values ?? null;
+    try {
+        const embedding = await provider.embed(content);
+        if (embedding) {
+            cache?.set(key, embedding);
+        }
+        return embedding ? { embedding, model } : null;
     } catch (error: any) {
         console.error('Embedding error:', error);
         vscode.window.showErrorMessage(`Tektite: Embedding failed - ${error.message}`);
@@ -33,37 +85,160 @@ export async function getEmbedding(
     }
 }
 
+export interface EmbeddingBatchProgress {
+    model: string;
+    results: Record<string, number[]>; // Embeddings finished since the previous progress report, by item id
+    done: number;
+    failed: number;
+    total: number;
+}
+
+export interface EmbeddingBatchSummary {
+    done: number;
+    failed: number;
+    total: number;
+    cancelled: boolean;
+    error?: string; // Last error, when items failed
+}
+
+function getBatchSettings(): { batchSize: number; concurrency: number } {
+    const config = vscode.workspace.getConfiguration('tektite.embeddings');
+    return {
+        batchSize: Math.max(1, config.get<number>('batchSize', 32)),
+        concurrency: Math.max(1, config.get<number>('concurrency', 2))
+    };
+}
+
+// Rate limits, server errors and network failures (no status) are worth another try
+function isRetryable(error: any): boolean {
+    const status = error?.status;
+    return status === undefined || status === 429 || status >= 500;
+}
+
+function delay(ms: number, token: vscode.CancellationToken): Promise<void> {
+    return new Promise(resolve => {
+        const done = () => {
+            clearTimeout(timer);
+            subscription.dispose();
+            resolve();
+        };
+        const timer = setTimeout(done, ms);
+        const subscription = token.onCancellationRequested(done);
+    });
+}
+
+/**
+ * Calls request, retrying retryable failures with exponential backoff (1s, 2s, 4s, ... plus jitter).
+ * Throws vscode.CancellationError when cancelled while waiting.
+ */
+async function withRetry<T>(request: () => Promise<T>, token: vscode.CancellationToken): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await request();
+        } catch (error) {
+            if (attempt >= MAX_RETRIES || !isRetryable(error)) {
+                throw error;
+            }
+            await delay(RETRY_BASE_DELAY_MS * 2 ** attempt * (1 + Math.random() * 0.25), token);
+            if (token.isCancellationRequested) {
+                throw new vscode.CancellationError();
+            }
+        }
+    }
+}
+
+/**
+ * Embeds many texts, reporting results as they arrive. Provider requests are sent in batches
+ * of tektite.embeddings.batchSize, at most tektite.embeddings.concurrency at a time; cached
+ * embeddings are reported first and never requested.
+ */
+export async function getEmbeddingsBatch(
+    secrets: vscode.SecretStorage,
+    items: Array<{ id: string; content: string }>,
+    cache: EmbeddingCache,
+    onProgress: (progress: EmbeddingBatchProgress) => void,
+    token: vscode.CancellationToken
+): Promise<EmbeddingBatchSummary> {
+    const total = items.length;
+    const provider = await getEmbeddingProvider(secrets);
+
+    if (provider === undefined) {
+        return { done: 0, failed: total, total, cancelled: false, error: 'API key not set' };
+    }
+    if (provider === null) {
+        const results: Record<string, number[]> = {};
+        items.forEach(item => { results[item.id] = embedLocally(item.content); });
+        onProgress({ model: LOCAL_EMBEDDING_MODEL, results, done: total, failed: 0, total });
+        return { done: total, failed: 0, total, cancelled: false };
+    }
+
+    const model = `${provider.id}:${provider.embeddingModel}`;
+    const cached: Record<string, number[]> = {};
+    const misses = items.filter(item => {
+        const embedding = cache.get(EmbeddingCache.key(model, item.content));
+        if (embedding) cached[item.id] = embedding;
+        return !embedding;
+    });
+    let done = total - misses.length;
+    let failed = 0;
+    let error: string | undefined;
+    if (done > 0) {
+        onProgress({ model, results: cached, done, failed, total });
+    }
+
+    const { batchSize, concurrency } = getBatchSettings();
+    const batches: Array<typeof items> = [];
+    for (let start = 0; start < misses.length; start += batchSize) {
+        batches.push(misses.slice(start, start + batchSize));
+    }
+
+    let next = 0;
+    const worker = async () => {
+        while (next < batches.length && !token.isCancellationRequested) {
+            const batch = batches[next++];
+            const results: Record<string, number[]> = {};
+            try {
+                const embeddings = await withRetry(() => provider.embedBatch(batch.map(item => item.content)), token);
+                batch.forEach((item, i) => {
+                    const embedding = embeddings[i];
+                    if (embedding) {
+                        results[item.id] = embedding;
+                        cache.set(EmbeddingCache.key(model, item.content), embedding);
+                        done++;
+                    } else {
+                        failed++;
+                    }
+                });
+            } catch (e: any) {
+                if (e instanceof vscode.CancellationError) return;
+                console.error('Embedding batch error:', e);
+                error = e.message;
+                failed += batch.length;
+            }
+            onProgress({ model, results, done, failed, total });
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, worker));
+
+    if (failed > 0) {
+        vscode.window.showErrorMessage(`Tektite: ${failed} of ${total} embeddings failed - ${error ?? 'no embedding returned'}`);
+    }
+    return { done, failed, total, cancelled: token.isCancellationRequested, error };
+}
+
 export async function callAI(
     secrets: vscode.SecretStorage,
     prompt: string,
     schema?: any
 ): Promise<any | null> {
-    const apiKey = await secrets.get(API_KEY_SECRET);
+    const provider = await getProvider(secrets);
 
-    if (!apiKey) {
-        vscode.window.showWarningMessage(
-            'Tektite: Gemini API key not set. Use "Tektite: Set Gemini API Key" command.'
-        );
+    if (!provider) {
         return null;
     }
 
     try {
-        const { GoogleGenAI, Type } = await import('@google/genai');
-        const ai = new GoogleGenAI({ apiKey });
-
-        const config: any = {};
-        if (schema) {
-            config.responseMimeType = 'application/json';
-            config.responseSchema = schema;
-        }
-
-        const result = await ai.models.generateContent({
-            model: 'gemini-2.0-flash',
-            contents: prompt,
-            config
-        });
-
-        const text = result.text;
+        const text = await provider.generate(prompt, schema);
 
         if (schema && text) {
             try {
@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import { resolveWorkspacePath } from './workspacePaths';
+
+export interface FileEdit {
+    path: string; // Workspace-relative
+    original?: string; // Content the edit was made against; undefined creates the file
+    content: string;
+}
+
+export interface SaveResult {
+    saved: boolean;
+    mtime?: number; // Modification time of the file on disk after the save
+    diskContent?: string; // Set when the file changed on disk and the user chose to reload it
+}
+
+export interface ApplyEditsResult {
+    applied: boolean;
+    // Files whose document no longer matched `original`, with their current content
+    conflicts: Record<string, string>;
+}
+
+function openDocument(uri: vscode.Uri): vscode.TextDocument | undefined {
+    return vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+}
+
+/**
+ * Content of a file as the user sees it: the editor buffer when the file is open (possibly
+ * with unsaved changes), otherwise the file on disk.
+ */
+export async function readDocumentText(uri: vscode.Uri): Promise<string> {
+    const document = openDocument(uri);
+    if (document) {
+        return document.getText();
+    }
+    return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+}
+
+/**
+ * The smallest range of `current` to replace to get `next`: everything between their
+ * common prefix and common suffix. Keeps cursors, folding and markers elsewhere intact.
+ */
+function changedRange(current: string, next: string): { start: number; end: number; text: string } {
+    let prefix = 0;
+    const maxPrefix = Math.min(current.length, next.length);
+    while (prefix < maxPrefix && current[prefix] === next[prefix]) prefix++;
+
+    let suffix = 0;
+    const maxSuffix = maxPrefix - prefix;
+    while (suffix < maxSuffix && current[current.length - 1 - suffix] === next[next.length - 1 - suffix]) suffix++;
+
+    return { start: prefix, end: current.length - suffix, text: next.slice(prefix, next.length - suffix) };
+}
+
+/**
+ * Applies file edits made in the graph as one WorkspaceEdit, so they land in the editor
+ * buffers and on the undo stack like any other edit. Nothing is applied when a document
+ * changed since the webview read it; the current content is returned instead. With
+ * `preview`, VS Code shows the changes in the Refactor Preview to confirm first.
+ */
+export async function applyFileEdits(edits: FileEdit[], label: string, preview: boolean): Promise<ApplyEditsResult> {
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    const metadata: vscode.WorkspaceEditEntryMetadata = { label, needsConfirmation: preview };
+    const conflicts: Record<string, string> = {};
+    let changes = 0;
+
+    for (const edit of edits) {
+        const uri = resolveWorkspacePath(edit.path);
+
+        if (edit.original === undefined) {
+            const existing = await readDocumentText(uri).catch(() => undefined);
+            if (existing !== undefined) {
+                conflicts[edit.path] = existing;
+                continue;
+            }
+            workspaceEdit.createFile(uri, { ignoreIfExists: false, contents: Buffer.from(edit.content, 'utf8') }, metadata);
+            changes++;
+            continue;
+        }
+
+        const document = await vscode.workspace.openTextDocument(uri);
+        const current = document.getText();
+        if (current === edit.content) {
+            continue;
+        }
+        if (current !== edit.original) {
+            conflicts[edit.path] = current;
+            continue;
+        }
+
+        const { start, end, text } = changedRange(current, edit.content);
+        workspaceEdit.replace(uri, new vscode.Range(document.positionAt(start), document.positionAt(end)), text, metadata);
+        changes++;
+    }
+
+    if (Object.keys(conflicts).length > 0) {
+        vscode.window.showWarningMessage(
+            `Tektite: ${Object.keys(conflicts).join(', ')} changed in the editor. The graph has been updated; apply "${label}" again.`
+        );
+        return { applied: false, conflicts };
+    }
+    if (changes === 0) {
+        return { applied: true, conflicts };
+    }
+
+    const applied = await vscode.workspace.applyEdit(workspaceEdit, { isRefactoring: preview });
+    return { applied, conflicts };
+}
+
+export async function getModifiedTime(uri: vscode.Uri): Promise<number | undefined> {
+    try {
+        return (await vscode.workspace.fs.stat(uri)).mtime;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Writes the content to disk, through the editor buffer when the file is open so the editor
+ * is not left dirty. When the file changed on disk since `expectedMtime`, asks whether to
+ * overwrite it or reload it instead.
+ */
+export async function saveFileContent(filePath: string, content: string, expectedMtime?: number): Promise<SaveResult> {
+    const uri = resolveWorkspacePath(filePath);
+    const mtime = await getModifiedTime(uri);
+    let document = openDocument(uri);
+
+    if (expectedMtime !== undefined && mtime !== undefined && mtime !== expectedMtime) {
+        const choice = await vscode.window.showWarningMessage(
+            `${filePath} changed on disk since it was loaded into the graph.`,
+            { modal: true },
+            'Overwrite',
+            'Reload from Disk'
+        );
+
+        if (choice === 'Reload from Disk') {
+            if (document?.isDirty) {
+                // Drop the buffer's unsaved changes too, so editor and graph agree again
+                await vscode.window.showTextDocument(document, { preview: false, preserveFocus: true });
+                await vscode.commands.executeCommand('workbench.action.files.revert');
+            }
+            const diskContent = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            return { saved: false, mtime, diskContent };
+        }
+        if (choice !== 'Overwrite') {
+            return { saved: false, mtime };
+        }
+        if (document && !document.isDirty) {
+            // A clean buffer follows the disk; write directly rather than save a stale document
+            document = undefined;
+        }
+    }
+
+    if (document) {
+        if (document.getText() !== content) {
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(uri, new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)), content);
+            await vscode.workspace.applyEdit(edit);
+        }
+        // A clean buffer already matches the disk
+        if (document.isDirty && !(await document.save())) {
+            return { saved: false, mtime };
+        }
+    } else {
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+    }
+
+    return { saved: true, mtime: await getModifiedTime(uri) };
+}
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+
+const CACHE_FILE = 'embeddings.json';
+const MAX_ENTRIES = 20000;
+const SAVE_DELAY_MS = 2000;
+
+function sha256(text: string): string {
+    return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Embeddings persisted in a JSON file in the workspace storage folder, keyed by a hash of
+ * the model id and the embedded text (the cleaned function code). Writes are batched, and
+ * the least recently used entries are dropped past MAX_ENTRIES.
+ */
+export class EmbeddingCache {
+    private readonly _file: vscode.Uri;
+    private readonly _entries: Map<string, number[]>;
+    private _saveTimer: NodeJS.Timeout | undefined;
+
+    private constructor(file: vscode.Uri, entries: Map<string, number[]>) {
+        this._file = file;
+        this._entries = entries;
+    }
+
+    public static async open(storageUri: vscode.Uri): Promise<EmbeddingCache> {
+        const file = vscode.Uri.joinPath(storageUri, CACHE_FILE);
+        let entries = new Map<string, number[]>();
+        try {
+            const content = await vscode.workspace.fs.readFile(file);
+            entries = new Map(Object.entries(JSON.parse(Buffer.from(content).toString('utf8'))));
+        } catch {
+            // No cache yet, or unreadable: start empty
+        }
+        return new EmbeddingCache(file, entries);
+    }
+
+    public static key(model: string, content: string): string {
+        return sha256(`${model}\0${content}`);
+    }
+
+    public get(key: string): number[] | undefined {
+        const embedding = this._entries.get(key);
+        if (embedding) {
+            // Move to the end so it is dropped last
+            this._entries.delete(key);
+            this._entries.set(key, embedding);
+        }
+        return embedding;
+    }
+
+    public set(key: string, embedding: number[]) {
+        this._entries.delete(key);
+        this._entries.set(key, embedding);
+        while (this._entries.size > MAX_ENTRIES) {
+            this._entries.delete(this._entries.keys().next().value!);
+        }
+        this._scheduleSave();
+    }
+
+    public get size(): number {
+        return this._entries.size;
+    }
+
+    public async clear() {
+        this._entries.clear();
+        await this.save();
+    }
+
+    public get hasPendingSave(): boolean {
+        return this._saveTimer !== undefined;
+    }
+
+    public async save() {
+        clearTimeout(this._saveTimer);
+        this._saveTimer = undefined;
+
+        const content = JSON.stringify(Object.fromEntries(this._entries));
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(this._file, '..'));
+        await vscode.workspace.fs.writeFile(this._file, Buffer.from(content, 'utf8'));
+    }
+
+    private _scheduleSave() {
+        if (this._saveTimer) {
+            return;
+        }
+        this._saveTimer = setTimeout(() => {
+            this.save().catch(e => console.error('Failed to save embedding cache:', e));
+        }, SAVE_DELAY_MS);
+    }
+}
+
+let embeddingCache: Promise<EmbeddingCache> | undefined;
+export function getEmbeddingCache(context: vscode.ExtensionContext): Promise<EmbeddingCache> {
+    if (!embeddingCache) {
+        embeddingCache = EmbeddingCache.open(context.storageUri ?? context.globalStorageUri);
+    }
+    return embeddingCache;
+}
+
+// Writes batched changes before the extension shuts down
+export async function flushEmbeddingCache(): Promise<void> {
+    const cache = await embeddingCache;
+    if (cache?.hasPendingSave) {
+        await cache.save();
+    }
+}
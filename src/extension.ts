@@ -1,5 +1,10 @@
 import * as vscode from 'vscode';
 import { TektitePanel } from './TektitePanel';
+import { toWorkspacePath } from './workspacePaths';
+import { selectInterpreter } from './pythonEnvironments';
+import { promptForApiKey } from './aiProviders';
+import { flushEmbeddingCache, getEmbeddingCache } from './embeddingCache';
+import { entryPointScope, folderScope, isInScope } from './panelScope';
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Tektite extension is now active!');
@@ -12,24 +17,127 @@ export function activate(context: vscode.ExtensionContext) {
         }
     );
 
-    // Register command to set API key
+    // Register command to open a graph of one folder, from the Explorer or by picking it
+    const openFolderGraphCommand = vscode.commands.registerCommand(
+        'tektite.openFolderGraph',
+        async (uri?: vscode.Uri) => {
+            if (!uri) {
+                const picked = await vscode.window.showOpenDialog({
+                    canSelectFiles: false,
+                    canSelectFolders: true,
+                    defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+                    openLabel: 'Open Graph'
+                });
+                uri = picked?.[0];
+            }
+            if (!uri) {
+                return;
+            }
+            const scope = folderScope(uri);
+            if (!scope) {
+                vscode.window.showWarningMessage('Tektite: Only folders in the workspace can be shown in a graph.');
+                return;
+            }
+            TektitePanel.createOrShow(context.extensionUri, context, scope);
+        }
+    );
+
+    // Register editor context menu command to open a graph of the code reachable from the function under the cursor
+    const openFunctionGraphCommand = vscode.commands.registerCommand(
+        'tektite.openFunctionGraph',
+        async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || !toWorkspacePath(editor.document.uri)) {
+                vscode.window.showWarningMessage('Tektite: Only files in the workspace are shown in the graph.');
+                return;
+            }
+            try {
+                const scope = await entryPointScope(editor);
+                if (!scope) {
+                    vscode.window.showWarningMessage('Tektite: Place the cursor inside a function to graph the code it calls.');
+                    return;
+                }
+                TektitePanel.createOrShow(context.extensionUri, context, scope, vscode.ViewColumn.Beside);
+            } catch (e: any) {
+                vscode.window.showErrorMessage(`Tektite: Could not analyze ${editor.document.fileName}: ${e.message}`);
+            }
+        }
+    );
+
+    // Register command to set the API key of the selected AI provider
     const setApiKeyCommand = vscode.commands.registerCommand(
         'tektite.setApiKey',
+        () => promptForApiKey(context.secrets)
+    );
+
+    // Register command to choose the Python interpreter
+    const selectInterpreterCommand = vscode.commands.registerCommand(
+        'tektite.selectInterpreter',
+        selectInterpreter
+    );
+
+    // Register command to clear cached embeddings; an open graph embeds its functions again
+    const clearEmbeddingCacheCommand = vscode.commands.registerCommand(
+        'tektite.clearEmbeddingCache',
         async () => {
-            const apiKey = await vscode.window.showInputBox({
-                prompt: 'Enter your Gemini API Key',
-                password: true,
-                placeHolder: 'API Key will be stored securely'
-            });
-
-            if (apiKey) {
-                await context.secrets.store('tektite.geminiApiKey', apiKey);
-                vscode.window.showInformationMessage('Tektite: API Key saved successfully!');
+            const cache = await getEmbeddingCache(context);
+            const count = cache.size;
+            await cache.clear();
+            TektitePanel.panels.forEach(panel => panel.invalidateEmbeddings());
+            vscode.window.showInformationMessage(`Tektite: Cleared ${count} cached embeddings.`);
+        }
+    );
+
+    // Register commands to save graph edits (Ctrl+S / Ctrl+K S while the graph has focus)
+    const saveCommand = vscode.commands.registerCommand(
+        'tektite.save',
+        () => TektitePanel.activePanel?.requestSave(false)
+    );
+    const saveAllCommand = vscode.commands.registerCommand(
+        'tektite.saveAll',
+        () => TektitePanel.activePanel?.requestSave(true)
+    );
+
+    // Register editor context menu command to select the function under the cursor in the graph
+    const showInGraphCommand = vscode.commands.registerCommand(
+        'tektite.showInGraph',
+        () => {
+            const editor = vscode.window.activeTextEditor;
+            const filePath = editor && toWorkspacePath(editor.document.uri);
+            if (!editor || !filePath) {
+                vscode.window.showWarningMessage('Tektite: Only files in the workspace are shown in the graph.');
+                return;
             }
+            // The focused panel when the file is in its folder, otherwise a panel of the whole workspace.
+            // Entry-point panels may not show the file at all.
+            const panel = [TektitePanel.activePanel, ...TektitePanel.panels].find(p => p
+                && p.scope.kind !== 'entryPoint' && isInScope(p.scope, filePath));
+            TektitePanel.createOrShow(context.extensionUri, context, panel?.scope, vscode.ViewColumn.Beside)
+                .showInGraph(filePath, editor.selection.active.line + 1);
         }
     );
 
-    context.subscriptions.push(openGraphCommand, setApiKeyCommand);
+    // Register command to turn follow mode (graph selection follows the editor cursor) on or off
+    const toggleFollowEditorCommand = vscode.commands.registerCommand(
+        'tektite.toggleFollowEditor',
+        () => {
+            const config = vscode.workspace.getConfiguration('tektite');
+            return config.update('followEditor', !config.get<boolean>('followEditor', false), vscode.ConfigurationTarget.Global);
+        }
+    );
+
+    context.subscriptions.push(
+        openGraphCommand,
+        openFolderGraphCommand,
+        openFunctionGraphCommand,
+        setApiKeyCommand,
+        selectInterpreterCommand,
+        clearEmbeddingCacheCommand,
+        saveCommand,
+        saveAllCommand,
+        showInGraphCommand,
+        toggleFollowEditorCommand
+    );
 
     // Auto-open on activation if workspace is open
     if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
@@ -38,5 +146,5 @@ export function activate(context: vscode.ExtensionContext) {
 }
 
 export function deactivate() {
-    // Cleanup if needed
+    return flushEmbeddingCache();
 }
@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import ignore, { Ignore } from 'ignore';
+
+const DEFAULT_INCLUDE = ['**/*.py', '**/*.md', '**/*.json'];
+const DEFAULT_EXCLUDE = [
+    '**/node_modules/**',
+    '**/.git/**',
+    '**/.venv/**',
+    '**/venv/**',
+    '**/__pycache__/**',
+    '**/build/**',
+    '**/dist/**'
+];
+const DEFAULT_MAX_FILES_PER_LANGUAGE = 500;
+
+export interface TruncatedLanguage {
+    language: string;
+    found: number;
+    shown: number;
+}
+
+export interface DiscoveryResult {
+    files: vscode.Uri[];
+    truncated: TruncatedLanguage[];
+}
+
+export function languageOf(fileName: string): string {
+    if (fileName.endsWith('.py')) return 'python';
+    if (fileName.endsWith('.md')) return 'markdown';
+    if (fileName.endsWith('.json')) return 'json';
+    if (fileName.endsWith('.ts') || fileName.endsWith('.tsx')) return 'typescript';
+    return 'text';
+}
+
+function toGlob(patterns: string[]): string {
+    return patterns.length === 1 ? patterns[0] : `{${patterns.join(',')}}`;
+}
+
+/**
+ * Glob of the files tektite.include shows, or undefined when it is empty.
+ */
+export function getIncludeGlob(): string | undefined {
+    const include = vscode.workspace.getConfiguration('tektite').get<string[]>('include', DEFAULT_INCLUDE);
+    return include.length > 0 ? toGlob(include) : undefined;
+}
+
+/**
+ * Loads every .gitignore in the workspace. Each matcher applies to paths below its own directory.
+ */
+async function loadGitignores(exclude?: string): Promise<Array<{ dir: string; matcher: Ignore }>> {
+    const gitignores = await vscode.workspace.findFiles('**/.gitignore', exclude);
+
+    return Promise.all(gitignores.map(async uri => {
+        const content = await vscode.workspace.fs.readFile(uri);
+        return {
+            dir: path.dirname(uri.fsPath),
+            matcher: ignore().add(Buffer.from(content).toString('utf8'))
+        };
+    }));
+}
+
+/**
+ * Finds the files to show in the graph using the tektite.include / tektite.exclude globs
+ * and .gitignore rules, below `folder` when given. Files over tektite.maxFilesPerLanguage
+ * are dropped (in path order) and reported back so the webview can say so.
+ */
+export async function discoverWorkspaceFiles(folder?: vscode.Uri): Promise<DiscoveryResult> {
+    const config = vscode.workspace.getConfiguration('tektite');
+    const include = config.get<string[]>('include', DEFAULT_INCLUDE);
+    const excludePatterns = config.get<string[]>('exclude', DEFAULT_EXCLUDE);
+    const exclude = excludePatterns.length > 0 ? toGlob(excludePatterns) : undefined;
+    const maxPerLanguage = config.get<number>('maxFilesPerLanguage', DEFAULT_MAX_FILES_PER_LANGUAGE);
+
+    if (include.length === 0) {
+        return { files: [], truncated: [] };
+    }
+
+    const pattern = folder ? new vscode.RelativePattern(folder, toGlob(include)) : toGlob(include);
+    let files = await vscode.workspace.findFiles(pattern, exclude);
+
+    if (config.get<boolean>('respectGitignore', true)) {
+        const gitignores = await loadGitignores(exclude);
+        files = files.filter(uri => !gitignores.some(({ dir, matcher }) => {
+            const relative = path.relative(dir, uri.fsPath);
+            return !relative.startsWith('..') && !path.isAbsolute(relative)
+                && matcher.ignores(relative.split(path.sep).join('/'));
+        }));
+    }
+
+    // Group by language, keeping a stable order so the same subset is shown every time
+    const byLanguage = new Map<string, vscode.Uri[]>();
+    files
+        .sort((a, b) => a.fsPath.localeCompare(b.fsPath))
+        .forEach(uri => {
+            const language = languageOf(uri.fsPath);
+            if (!byLanguage.has(language)) byLanguage.set(language, []);
+            byLanguage.get(language)!.push(uri);
+        });
+
+    const result: DiscoveryResult = { files: [], truncated: [] };
+    byLanguage.forEach((uris, language) => {
+        if (maxPerLanguage > 0 && uris.length > maxPerLanguage) {
+            result.truncated.push({ language, found: uris.length, shown: maxPerLanguage });
+            uris = uris.slice(0, maxPerLanguage);
+        }
+        result.files.push(...uris);
+    });
+
+    return result;
+}
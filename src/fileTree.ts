@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+
+// Mirrors FileSystemItem in webview-ui/src/types.ts
+export interface FileTreeItem {
+    id: string;
+    name: string;
+    type: 'file' | 'folder';
+    path: string;           // Workspace-relative path ('' for the root of a single-root workspace)
+    language?: string;
+    fullPath?: string;
+    isOpen?: boolean;
+    children?: FileTreeItem[];
+}
+
+export interface FileTreeEntry {
+    path: string;           // Workspace-relative, as returned by toWorkspacePath
+    language: string;
+    fullPath: string;
+}
+
+/**
+ * Builds the nested folder tree for the given files, with one root per workspace folder.
+ * Folders come before files and both are sorted by name.
+ */
+export function buildFileTree(files: FileTreeEntry[]): FileTreeItem[] {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const isMultiRoot = folders.length > 1;
+
+    const roots = folders.map<FileTreeItem>(folder => ({
+        id: `folder-${isMultiRoot ? folder.name : ''}`,
+        name: folder.name,
+        type: 'folder',
+        path: isMultiRoot ? folder.name : '',
+        isOpen: true,
+        children: []
+    }));
+    const foldersByPath = new Map(roots.map(root => [root.path, root]));
+    if (!foldersByPath.has('') && roots.length > 0) {
+        // Paths without a folder prefix in a multi-root workspace land in the first folder
+        foldersByPath.set('', roots[0]);
+    }
+
+    const getFolder = (folderPath: string): FileTreeItem => {
+        const existing = foldersByPath.get(folderPath);
+        if (existing) return existing;
+
+        const slash = folderPath.lastIndexOf('/');
+        const parent = getFolder(slash === -1 ? '' : folderPath.slice(0, slash));
+        const folder: FileTreeItem = {
+            id: `folder-${folderPath}`,
+            name: folderPath.slice(slash + 1),
+            type: 'folder',
+            path: folderPath,
+            children: []
+        };
+        parent.children!.push(folder);
+        foldersByPath.set(folderPath, folder);
+        return folder;
+    };
+
+    for (const file of files) {
+        const slash = file.path.lastIndexOf('/');
+        getFolder(slash === -1 ? '' : file.path.slice(0, slash)).children!.push({
+            id: `file-${file.path}`,
+            name: file.path.slice(slash + 1),
+            type: 'file',
+            path: file.path,
+            language: file.language,
+            fullPath: file.fullPath
+        });
+    }
+
+    const sortTree = (items: FileTreeItem[]) => {
+        items.sort((a, b) => a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1);
+        items.forEach(item => item.children && sortTree(item.children));
+    };
+    roots.forEach(root => sortTree(root.children!));
+
+    return roots;
+}
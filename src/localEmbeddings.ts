@@ -0,0 +1,87 @@
+/**
+ * Offline code embeddings: hashed bag-of-features vectors over identifier sub-words,
+ * sub-word bigrams, called names and control-flow keywords. Needs no network or model,
+ * so the semantic graph also works in air-gapped setups. Quality is well below a hosted
+ * embedding model, but functions that share vocabulary and structure still land close.
+ */
+
+// Changes whenever the feature set does, so vectors of different versions are never compared
+export const LOCAL_EMBEDDING_MODEL = 'local:hashed-features-v1';
+
+const DIMENSIONS = 512;
+
+const KEYWORDS = new Set([
+    'if', 'elif', 'else', 'for', 'while', 'return', 'yield', 'try', 'except', 'finally', 'raise',
+    'with', 'async', 'await', 'lambda', 'break', 'continue', 'assert', 'del', 'global', 'nonlocal',
+    'in', 'not', 'and', 'or', 'is', 'class', 'def', 'import', 'from', 'pass', 'none', 'true', 'false'
+]);
+
+const FEATURE_WEIGHTS = {
+    word: 1,
+    bigram: 0.5,
+    call: 1.5,
+    keyword: 0.5
+};
+
+// "parseHTTPResponse_v2" -> ["parse", "http", "response", "v2"]
+function splitIdentifier(identifier: string): string[] {
+    return identifier
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+        .split(/[\s_]+/)
+        .map(part => part.toLowerCase())
+        .filter(part => part.length > 1);
+}
+
+// FNV-1a; the top bit picks the sign so that hash collisions tend to cancel out
+function hashFeature(feature: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+        hash ^= feature.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+export function embedLocally(code: string): number[] {
+    const counts = new Map<string, { count: number; weight: number }>();
+    const add = (feature: string, weight: number) => {
+        const entry = counts.get(feature);
+        if (entry) entry.count++;
+        else counts.set(feature, { count: 1, weight });
+    };
+
+    // Strings are data, not vocabulary
+    const source = code.replace(/("""[\s\S]*?"""|'''[\s\S]*?'''|"[^"\n]*"|'[^'\n]*')/g, ' ');
+    const identifier = /[A-Za-z_][A-Za-z0-9_]*(\s*\()?/g;
+    let previous: string | undefined;
+    let match: RegExpExecArray | null;
+
+    while ((match = identifier.exec(source)) !== null) {
+        const name = match[0].replace(/\s*\($/, '');
+        if (KEYWORDS.has(name.toLowerCase())) {
+            add(`k:${name}`, FEATURE_WEIGHTS.keyword);
+            continue;
+        }
+
+        if (match[1]) {
+            add(`c:${name.toLowerCase()}`, FEATURE_WEIGHTS.call);
+        }
+        splitIdentifier(name).forEach(word => {
+            add(`w:${word}`, FEATURE_WEIGHTS.word);
+            if (previous) add(`b:${previous}|${word}`, FEATURE_WEIGHTS.bigram);
+            previous = word;
+        });
+    }
+
+    const vector = new Array<number>(DIMENSIONS).fill(0);
+    counts.forEach(({ count, weight }, feature) => {
+        const hash = hashFeature(feature);
+        const sign = hash & 0x80000000 ? -1 : 1;
+        // Sub-linear term frequency so one long loop does not dominate the vector
+        vector[hash % DIMENSIONS] += sign * weight * (1 + Math.log(count));
+    });
+
+    const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return magnitude === 0 ? vector : vector.map(v => v / magnitude);
+}
@@ -1,7 +1,15 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
-import { runPythonCode } from './pythonRunner';
-import { callAI, getEmbedding } from './aiService';
+import { cancelPythonRun, cancelPythonRuns, runPythonCode, runPythonFunction } from './pythonRunner';
+import { ParseCache } from './parseCache';
+import { getEmbeddingCache } from './embeddingCache';
+import { getActiveInterpreter } from './pythonEnvironments';
+import { resolveWorkspacePath, toWorkspacePath } from './workspacePaths';
+import { buildFileTree, FileTreeEntry } from './fileTree';
+import { discoverWorkspaceFiles, languageOf } from './fileDiscovery';
+import { callAI, getEmbedding, getEmbeddingsBatch } from './aiService';
+import { getAISettings, getApiKeySecret, requiresApiKey } from './aiProviders';
+import { applyFileEdits, FileEdit, getModifiedTime, readDocumentText, saveFileContent } from './documentEdits';
+import { PanelScope, scopeFolder } from './panelScope';
 
 // Message types from webview
 export interface WebviewMessage {
@@ -18,25 +26,95 @@ export interface ExtensionResponse {
     error?: string;
 }
 
+// Sends an unsolicited message (progress, streamed data) to the webview that made the request
+export type PostMessage = (message: any) => Thenable<boolean>;
+
+// The panel a message came from. Runs and embedding batches are tracked per panel, since
+// each webview numbers its own.
+export interface MessageSource {
+    id: number;
+    scope: PanelScope;
+    postMessage: PostMessage;
+}
+
+const FILE_BATCH_SIZE = 50;
+
+let parseCache: ParseCache | undefined;
+function getParseCache(context: vscode.ExtensionContext): ParseCache {
+    if (!parseCache) {
+        parseCache = new ParseCache(context.workspaceState);
+    }
+    return parseCache;
+}
+
+// Cancellation of the embedding batches in progress, by panel and batch id
+const activeEmbeddingBatches = new Map<string, vscode.CancellationTokenSource>();
+
+// Latest workspace load per panel; older streams stop when a newer one starts
+const activeLoads = new WeakMap<MessageSource, number>();
+let loadCounter = 0;
+
+// Python modules of the whole workspace per panel; a folder panel's files may import modules outside it
+const workspaceModules = new WeakMap<MessageSource, string[]>();
+
+// Key of a run or embedding batch, unique across panels
+const sourceKey = (source: MessageSource, id: string) => `${source.id}:${id}`;
+
+/**
+ * Stops what a closed panel started: its Python runs and embedding batches.
+ */
+export function releaseMessageSource(source: MessageSource) {
+    const prefix = sourceKey(source, '');
+    cancelPythonRuns(prefix);
+    activeEmbeddingBatches.forEach((tokenSource, key) => {
+        if (key.startsWith(prefix)) tokenSource.cancel();
+    });
+}
+
 export async function handleMessage(
     message: WebviewMessage,
-    context: vscode.ExtensionContext
+    context: vscode.ExtensionContext,
+    source: MessageSource
 ): Promise<ExtensionResponse | null> {
     const { type, requestId, payload } = message;
 
     try {
         switch (type) {
             case 'getWorkspaceFiles':
-                return await handleGetWorkspaceFiles(requestId);
+                return await handleGetWorkspaceFiles(requestId, context, source);
 
             case 'getFileContent':
                 return await handleGetFileContent(requestId, payload.path);
 
             case 'saveFile':
-                return await handleSaveFile(requestId, payload.path, payload.content);
+                return await handleSaveFile(requestId, payload.path, payload.content, payload.expectedMtime);
+
+            case 'revealInEditor':
+                return await handleRevealInEditor(requestId, payload.path, payload.startLine, payload.endLine);
+
+            case 'setFollowEditor':
+                return await handleSetFollowEditor(requestId, !!payload.enabled);
+
+            case 'applyEdits':
+                return await handleApplyEdits(requestId, payload.edits, payload.label, payload.isRefactoring);
 
             case 'runPython':
-                return await handleRunPython(requestId, payload.code);
+                return await handleRunPython(requestId, payload.code, payload.runId, source);
+
+            case 'runFunction':
+                return await handleRunFunction(requestId, payload, source);
+
+            case 'cancelPython':
+                return await handleCancelPython(requestId, payload.runId, source);
+
+            case 'getInterpreter':
+                return handleGetInterpreter(requestId);
+
+            case 'selectInterpreter':
+                return await handleSelectInterpreter(requestId);
+
+            case 'analyzePython':
+                return await handleAnalyzePython(requestId, context, source, payload.files, payload.modulePaths);
 
             case 'getApiKey':
                 return await handleGetApiKey(requestId, context);
@@ -44,6 +122,12 @@ export async function handleMessage(
             case 'callEmbedding':
                 return await handleCallEmbedding(requestId, payload.content, context);
 
+            case 'callEmbeddingBatch':
+                return await handleCallEmbeddingBatch(requestId, payload.batchId, payload.items, context, source);
+
+            case 'cancelEmbeddingBatch':
+                return handleCancelEmbeddingBatch(requestId, payload.batchId, source);
+
             case 'callAI':
                 return await handleCallAI(requestId, payload.prompt, payload.schema, context);
 
@@ -60,61 +144,114 @@ export async function handleMessage(
     }
 }
 
-async function handleGetWorkspaceFiles(requestId?: string): Promise<ExtensionResponse> {
+/**
+ * Responds with the file tree only. Contents (and Python analysis) follow in
+ * `workspaceFilesBatch` messages so the webview can render while large workspaces load.
+ */
+async function handleGetWorkspaceFiles(
+    requestId: string | undefined,
+    context: vscode.ExtensionContext,
+    source: MessageSource
+): Promise<ExtensionResponse> {
     const workspaceFolders = vscode.workspace.workspaceFolders;
 
     if (!workspaceFolders) {
         return {
             type: 'getWorkspaceFilesResponse',
             requestId,
-            payload: { files: [], tree: [] }
+            payload: { fileTree: [], truncated: [], total: 0, scope: source.scope }
         };
     }
 
-    // Find Python files and common source files
-    const pythonFiles = await vscode.workspace.findFiles('**/*.py', '**/node_modules/**', 100);
-    const mdFiles = await vscode.workspace.findFiles('**/*.md', '**/node_modules/**', 20);
-    const jsonFiles = await vscode.workspace.findFiles('**/*.json', '**/node_modules/**', 10);
-
-    const allFiles = [...pythonFiles, ...mdFiles, ...jsonFiles];
-
-    const fileMap: Record<string, string> = {};
-    const fileTree: any[] = [];
-
-    for (const fileUri of allFiles) {
-        try {
-            const content = await vscode.workspace.fs.readFile(fileUri);
-            const relativePath = vscode.workspace.asRelativePath(fileUri);
-            const fileName = path.basename(fileUri.fsPath);
-
-            fileMap[fileName] = Buffer.from(content).toString('utf8');
-
-            // Determine language
-            let language = 'text';
-            if (fileName.endsWith('.py')) language = 'python';
-            else if (fileName.endsWith('.md')) language = 'markdown';
-            else if (fileName.endsWith('.json')) language = 'json';
-            else if (fileName.endsWith('.ts') || fileName.endsWith('.tsx')) language = 'typescript';
-
-            fileTree.push({
-                id: `file-${fileName}`,
-                name: fileName,
-                type: 'file',
-                language,
-                fullPath: fileUri.fsPath
-            });
-        } catch (e) {
-            console.error(`Failed to read file: ${fileUri.fsPath}`, e);
-        }
-    }
+    // Find source files using the tektite.include / tektite.exclude settings, in the panel's folder
+    const folder = scopeFolder(source.scope);
+    const { files: allFiles, truncated } = await discoverWorkspaceFiles(folder);
+
+    const entries: Array<FileTreeEntry & { uri: vscode.Uri }> = allFiles.map(uri => ({
+        uri,
+        path: toWorkspacePath(uri) ?? uri.fsPath,
+        language: languageOf(uri.fsPath),
+        fullPath: uri.fsPath
+    }));
+
+    // Imports resolve against the whole workspace, so a module reads the same in every panel
+    const workspaceFiles = folder ? (await discoverWorkspaceFiles()).files : allFiles;
+    const modulePaths = workspaceFiles.flatMap(uri => toWorkspacePath(uri) ?? []).filter(p => p.endsWith('.py'));
+    workspaceModules.set(source, modulePaths);
+
+    const loadId = ++loadCounter;
+    activeLoads.set(source, loadId);
+    // Start after this response has been posted, so the tree arrives before the first batch
+    setTimeout(() => void streamWorkspaceFiles(entries, modulePaths, context, source, loadId, !folder), 0);
 
     return {
         type: 'getWorkspaceFilesResponse',
         requestId,
-        payload: { fileMap, fileTree }
+        payload: { fileTree: buildFileTree(entries), truncated, total: entries.length, scope: source.scope }
     };
 }
 
+async function streamWorkspaceFiles(
+    entries: Array<{ uri: vscode.Uri; path: string }>,
+    modulePaths: string[],
+    context: vscode.ExtensionContext,
+    source: MessageSource,
+    loadId: number,
+    isWholeWorkspace: boolean
+): Promise<void> {
+    const cache = getParseCache(context);
+    let analyzerError: string | undefined;
+
+    for (let start = 0; start < entries.length; start += FILE_BATCH_SIZE) {
+        if (activeLoads.get(source) !== loadId) return;
+
+        const files: Record<string, string> = {};
+        const mtimes: Record<string, number> = {};
+        await Promise.all(entries.slice(start, start + FILE_BATCH_SIZE).map(async entry => {
+            try {
+                // Open editors may hold unsaved changes; edits are applied against those
+                files[entry.path] = await readDocumentText(entry.uri);
+                // Lets a later save tell whether the file changed on disk in the meantime
+                mtimes[entry.path] = (await getModifiedTime(entry.uri)) ?? 0;
+            } catch (e) {
+                console.error(`Failed to read file: ${entry.uri.fsPath}`, e);
+            }
+        }));
+
+        // Analyze with the full module list so imports of files in later batches still resolve
+        const pythonFiles = Object.fromEntries(Object.entries(files).filter(([p]) => p.endsWith('.py')));
+        let analysis = {};
+        if (!analyzerError && Object.keys(pythonFiles).length > 0) {
+            try {
+                analysis = await cache.analyze(pythonFiles, modulePaths);
+            } catch (e: any) {
+                analyzerError = e.message || 'Python analysis failed';
+            }
+        }
+
+        const delivered = await Promise.resolve(source.postMessage({
+            type: 'workspaceFilesBatch',
+            payload: {
+                files,
+                mtimes,
+                analysis,
+                analyzerError,
+                loaded: Math.min(start + FILE_BATCH_SIZE, entries.length),
+                total: entries.length
+            }
+        })).catch(() => false);
+
+        // The panel was closed
+        if (!delivered) return;
+    }
+
+    // A folder panel only sees part of the workspace; entries of the other files stay
+    if (isWholeWorkspace) {
+        cache.prune(modulePaths);
+    }
+    await cache.save();
+}
+
 async function handleGetFileContent(requestId?: string, filePath?: string): Promise<ExtensionResponse> {
     if (!filePath) {
         return {
@@ -124,17 +261,25 @@ async function handleGetFileContent(requestId?: string, filePath?: string): Prom
         };
     }
 
-    const uri = vscode.Uri.file(filePath);
-    const content = await vscode.workspace.fs.readFile(uri);
+    const content = await readDocumentText(resolveWorkspacePath(filePath));
 
     return {
         type: 'getFileContentResponse',
         requestId,
-        payload: { content: Buffer.from(content).toString('utf8') }
+        payload: { content }
     };
 }
 
-async function handleSaveFile(requestId?: string, filePath?: string, content?: string): Promise<ExtensionResponse> {
+/**
+ * Saves a file edited in the graph. With `expectedMtime` (from when the file was loaded),
+ * a file changed on disk since then is only overwritten after the user confirms.
+ */
+async function handleSaveFile(
+    requestId?: string,
+    filePath?: string,
+    content?: string,
+    expectedMtime?: number
+): Promise<ExtensionResponse> {
     if (!filePath || content === undefined) {
         return {
             type: 'saveFileResponse',
@@ -143,41 +288,240 @@ async function handleSaveFile(requestId?: string, filePath?: string, content?: s
         };
     }
 
-    const uri = vscode.Uri.file(filePath);
-    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+    const result = await saveFileContent(filePath, content, expectedMtime);
 
     return {
         type: 'saveFileResponse',
         requestId,
-        payload: { success: true }
+        payload: { success: result.saved, mtime: result.mtime, diskContent: result.diskContent }
     };
 }
 
-async function handleRunPython(requestId?: string, code?: string): Promise<ExtensionResponse> {
-    if (!code) {
+/**
+ * Opens a file in a text editor beside the graph, selecting and centring the given lines
+ * (1-based, inclusive) when there are any.
+ */
+async function handleRevealInEditor(
+    requestId?: string,
+    filePath?: string,
+    startLine?: number,
+    endLine?: number
+): Promise<ExtensionResponse> {
+    if (!filePath) {
+        return {
+            type: 'revealInEditorResponse',
+            requestId,
+            error: 'File path is required'
+        };
+    }
+
+    const document = await vscode.workspace.openTextDocument(resolveWorkspacePath(filePath));
+    let selection: vscode.Range | undefined;
+    if (startLine !== undefined) {
+        // The graph may be behind the document; keep the range inside it
+        const lastLine = document.lineCount - 1;
+        const start = Math.min(Math.max(startLine - 1, 0), lastLine);
+        const end = Math.min(Math.max((endLine ?? startLine) - 1, start), lastLine);
+        selection = new vscode.Range(start, 0, end, document.lineAt(end).range.end.character);
+    }
+
+    const editor = await vscode.window.showTextDocument(document, {
+        viewColumn: vscode.ViewColumn.Beside,
+        preview: false,
+        selection
+    });
+    if (selection) {
+        editor.revealRange(selection, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    }
+
+    return {
+        type: 'revealInEditorResponse',
+        requestId,
+        payload: { revealed: true }
+    };
+}
+
+/**
+ * Turns follow mode on or off. It is a user preference, so it is stored globally; the panels
+ * pick the change up from the configuration.
+ */
+async function handleSetFollowEditor(requestId: string | undefined, enabled: boolean): Promise<ExtensionResponse> {
+    await vscode.workspace.getConfiguration('tektite').update('followEditor', enabled, vscode.ConfigurationTarget.Global);
+
+    return {
+        type: 'setFollowEditorResponse',
+        requestId,
+        payload: { enabled }
+    };
+}
+
+/**
+ * Node edits and AI refactors, applied to the editor buffers as one undoable WorkspaceEdit.
+ * Refactors open the Refactor Preview first when tektite.previewRefactors is on.
+ */
+async function handleApplyEdits(
+    requestId: string | undefined,
+    edits: FileEdit[] | undefined,
+    label: string | undefined,
+    isRefactoring: boolean | undefined
+): Promise<ExtensionResponse> {
+    if (!edits || edits.length === 0) {
+        return {
+            type: 'applyEditsResponse',
+            requestId,
+            error: 'Edits are required'
+        };
+    }
+
+    const preview = !!isRefactoring && vscode.workspace.getConfiguration('tektite').get<boolean>('previewRefactors', false);
+    const result = await applyFileEdits(edits, label || 'Tektite edit', preview);
+
+    return {
+        type: 'applyEditsResponse',
+        requestId,
+        payload: result
+    };
+}
+
+/**
+ * Starts the run and responds right away. Output follows in `pythonOutput` messages
+ * and the exit status in a final `pythonExit` message, all tagged with the run id.
+ */
+async function handleRunPython(
+    requestId: string | undefined,
+    code: string | undefined,
+    runId: string | undefined,
+    source: MessageSource
+): Promise<ExtensionResponse> {
+    if (!code || !runId) {
         return {
             type: 'runPythonResponse',
             requestId,
-            error: 'Python code is required'
+            error: 'Python code and run id are required'
         };
     }
 
-    const result = await runPythonCode(code);
+    runPythonCode(sourceKey(source, runId), code, (stream, text) => {
+        source.postMessage({ type: 'pythonOutput', payload: { runId, stream, text } });
+    })
+        .then(result => source.postMessage({ type: 'pythonExit', payload: { runId, ...result } }))
+        .catch(e => source.postMessage({ type: 'pythonExit', payload: { runId, error: e.message } }));
 
     return {
         type: 'runPythonResponse',
         requestId,
-        payload: { output: result }
+        payload: { runId }
+    };
+}
+
+/**
+ * Calls a single function node. Output streams like runPython; the final pythonExit
+ * message also carries repr() of the return value when the call succeeded.
+ */
+async function handleRunFunction(
+    requestId: string | undefined,
+    payload: { runId?: string; filePath?: string; moduleName?: string; qualname?: string; args?: string },
+    source: MessageSource
+): Promise<ExtensionResponse> {
+    const { runId, filePath, qualname } = payload;
+    if (!runId || !filePath || !qualname) {
+        return {
+            type: 'runFunctionResponse',
+            requestId,
+            error: 'Run id, file path and function name are required'
+        };
+    }
+
+    const target = {
+        filePath: resolveWorkspacePath(filePath).fsPath,
+        moduleName: payload.moduleName ?? '',
+        qualname,
+        args: payload.args ?? ''
+    };
+
+    runPythonFunction(sourceKey(source, runId), target, (stream, text) => {
+        source.postMessage({ type: 'pythonOutput', payload: { runId, stream, text } });
+    })
+        .then(result => source.postMessage({ type: 'pythonExit', payload: { runId, ...result } }))
+        .catch(e => source.postMessage({ type: 'pythonExit', payload: { runId, error: e.message } }));
+
+    return {
+        type: 'runFunctionResponse',
+        requestId,
+        payload: { runId }
+    };
+}
+
+async function handleCancelPython(requestId: string | undefined, runId: string | undefined, source: MessageSource): Promise<ExtensionResponse> {
+    if (!runId) {
+        return {
+            type: 'cancelPythonResponse',
+            requestId,
+            error: 'Run id is required'
+        };
+    }
+
+    return {
+        type: 'cancelPythonResponse',
+        requestId,
+        payload: { cancelled: cancelPythonRun(sourceKey(source, runId)) }
+    };
+}
+
+function handleGetInterpreter(requestId?: string): ExtensionResponse {
+    return {
+        type: 'getInterpreterResponse',
+        requestId,
+        payload: getActiveInterpreter()
+    };
+}
+
+async function handleSelectInterpreter(requestId?: string): Promise<ExtensionResponse> {
+    await vscode.commands.executeCommand('tektite.selectInterpreter');
+
+    return {
+        type: 'selectInterpreterResponse',
+        requestId,
+        payload: getActiveInterpreter()
+    };
+}
+
+async function handleAnalyzePython(
+    requestId: string | undefined,
+    context: vscode.ExtensionContext,
+    source: MessageSource,
+    files?: Record<string, string>,
+    modulePaths?: string[]
+): Promise<ExtensionResponse> {
+    if (!files) {
+        return {
+            type: 'analyzePythonResponse',
+            requestId,
+            error: 'Files are required'
+        };
+    }
+
+    const cache = getParseCache(context);
+    // The webview only knows the modules in its panel's scope
+    const allModules = new Set([...(modulePaths ?? []), ...(workspaceModules.get(source) ?? [])]);
+    const modules = await cache.analyze(files, [...allModules]);
+    await cache.save();
+
+    return {
+        type: 'analyzePythonResponse',
+        requestId,
+        payload: { modules }
     };
 }
 
 async function handleGetApiKey(requestId?: string, context?: vscode.ExtensionContext): Promise<ExtensionResponse> {
-    const apiKey = await context?.secrets.get('tektite.geminiApiKey');
+    const settings = getAISettings();
+    const apiKey = await context?.secrets.get(getApiKeySecret(settings.provider));
 
     return {
         type: 'getApiKeyResponse',
         requestId,
-        payload: { hasApiKey: !!apiKey }
+        payload: { hasApiKey: !!apiKey || !requiresApiKey(settings), provider: settings.provider }
     };
 }
 
@@ -194,12 +538,71 @@ async function handleCallEmbedding(
         };
     }
 
-    const embedding = await getEmbedding(context.secrets, content);
+    const result = await getEmbedding(context.secrets, content, await getEmbeddingCache(context));
 
     return {
         type: 'callEmbeddingResponse',
         requestId,
-        payload: { embedding }
+        payload: { embedding: result?.embedding ?? null, model: result?.model }
+    };
+}
+
+/**
+ * Starts embedding the items and responds right away. Embeddings follow in
+ * `embeddingProgress` messages as batches complete; the last one has `finished: true`.
+ */
+async function handleCallEmbeddingBatch(
+    requestId: string | undefined,
+    batchId: string | undefined,
+    items: Array<{ id: string; content: string }> | undefined,
+    context: vscode.ExtensionContext,
+    source: MessageSource
+): Promise<ExtensionResponse> {
+    if (!batchId || !items) {
+        return {
+            type: 'callEmbeddingBatchResponse',
+            requestId,
+            error: 'Batch id and items are required'
+        };
+    }
+
+    const tokenSource = new vscode.CancellationTokenSource();
+    const key = sourceKey(source, batchId);
+    activeEmbeddingBatches.set(key, tokenSource);
+
+    getEmbeddingCache(context)
+        .then(cache => getEmbeddingsBatch(
+            context.secrets,
+            items,
+            cache,
+            progress => source.postMessage({ type: 'embeddingProgress', payload: { batchId, ...progress } }),
+            tokenSource.token
+        ))
+        .then(summary => source.postMessage({ type: 'embeddingProgress', payload: { batchId, results: {}, ...summary, finished: true } }))
+        .catch(e => source.postMessage({
+            type: 'embeddingProgress',
+            payload: { batchId, results: {}, done: 0, failed: items.length, total: items.length, finished: true, error: e.message }
+        }))
+        .finally(() => {
+            activeEmbeddingBatches.delete(key);
+            tokenSource.dispose();
+        });
+
+    return {
+        type: 'callEmbeddingBatchResponse',
+        requestId,
+        payload: { batchId }
+    };
+}
+
+function handleCancelEmbeddingBatch(requestId: string | undefined, batchId: string | undefined, source: MessageSource): ExtensionResponse {
+    const tokenSource = batchId ? activeEmbeddingBatches.get(sourceKey(source, batchId)) : undefined;
+    tokenSource?.cancel();
+
+    return {
+        type: 'cancelEmbeddingBatchResponse',
+        requestId,
+        payload: { cancelled: !!tokenSource }
     };
 }
 
@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import { analyzePythonFiles } from './pythonAnalyzer';
+import { resolveWorkspacePath, toWorkspacePath } from './workspacePaths';
+
+/**
+ * What a graph panel shows: the whole workspace, the files below a folder (a workspace
+ * folder or any sub-directory), or the code reachable from one function. Entry points load
+ * the whole workspace; the webview narrows the graph along the calls from the function.
+ */
+export type PanelScope =
+    | { kind: 'workspace' }
+    | { kind: 'folder'; path: string } // Workspace path of the folder
+    | { kind: 'entryPoint'; path: string; qualname: string };
+
+export const WORKSPACE_SCOPE: PanelScope = { kind: 'workspace' };
+
+export function scopeTitle(scope: PanelScope): string {
+    switch (scope.kind) {
+        case 'workspace':
+            return 'Tektite - Code Graph';
+        case 'folder':
+            return `Tektite - ${scope.path}`;
+        case 'entryPoint':
+            return `Tektite - ${scope.qualname}()`;
+    }
+}
+
+export function isSameScope(a: PanelScope, b: PanelScope): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Folder a panel with this scope discovers files in; undefined for the whole workspace.
+ */
+export function scopeFolder(scope: PanelScope): vscode.Uri | undefined {
+    return scope.kind === 'folder' ? resolveWorkspacePath(scope.path) : undefined;
+}
+
+/**
+ * Whether a panel with this scope loads the file at the workspace path.
+ */
+export function isInScope(scope: PanelScope, workspacePath: string): boolean {
+    if (scope.kind !== 'folder') {
+        return true;
+    }
+    return workspacePath.startsWith(`${scope.path}/`);
+}
+
+/**
+ * Scope of a folder picked in the Explorer. The root of a single-folder workspace is the
+ * whole workspace, so it shares the workspace panel.
+ */
+export function folderScope(uri: vscode.Uri): PanelScope | undefined {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const root = folders.find(f => f.uri.toString() === uri.toString());
+    if (root) {
+        // Paths in multi-root workspaces start with the folder name
+        return folders.length > 1 ? { kind: 'folder', path: root.name } : WORKSPACE_SCOPE;
+    }
+    const folderPath = toWorkspacePath(uri);
+    return folderPath === undefined ? undefined : { kind: 'folder', path: folderPath };
+}
+
+/**
+ * Scope of the innermost function or method around the editor cursor, found with the
+ * Python analyzer. Undefined when the cursor is not inside a function.
+ */
+export async function entryPointScope(editor: vscode.TextEditor): Promise<PanelScope | undefined> {
+    const filePath = toWorkspacePath(editor.document.uri);
+    if (!filePath) {
+        return undefined;
+    }
+
+    const analysis = (await analyzePythonFiles({ [filePath]: editor.document.getText() }, [filePath]))[filePath];
+    const line = editor.selection.active.line + 1;
+    const innermost = (analysis?.functions ?? [])
+        .filter(fn => fn.startLine <= line && line <= fn.endLine)
+        .sort((a, b) => (a.endLine - a.startLine) - (b.endLine - b.startLine))[0];
+
+    return innermost ? { kind: 'entryPoint', path: filePath, qualname: innermost.qualname } : undefined;
+}
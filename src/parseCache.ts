@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { analyzePythonFiles, ANALYZER_VERSION, PythonModuleAnalysis } from './pythonAnalyzer';
+import { getPythonPath } from './pythonEnvironments';
+
+const CACHE_KEY = 'tektite.parseCache';
+
+interface CacheEntry {
+    hash: string;
+    root: string; // Source root of the module, e.g. "src" for src/pkg/mod.py
+    lookups: Record<string, string | null>;
+    analysis: Omit<PythonModuleAnalysis, 'lookups'>;
+}
+
+function sha1(text: string): string {
+    return crypto.createHash('sha1').update(text).digest('hex');
+}
+
+/**
+ * Dotted module names of workspace paths, following the __init__.py package layout like the
+ * analyzer's ModuleIndex. Lets a cached analysis be checked against a changed set of modules
+ * without running Python.
+ */
+class ModuleIndex {
+    private readonly _paths: Set<string>;
+    private readonly _byName = new Map<string, Array<{ root: string; path: string }>>();
+
+    constructor(paths: string[]) {
+        this._paths = new Set(paths);
+        [...this._paths].sort().forEach(filePath => {
+            const { name, root } = this.moduleName(filePath);
+            if (!name) return;
+            if (!this._byName.has(name)) this._byName.set(name, []);
+            this._byName.get(name)!.push({ root, path: filePath });
+        });
+    }
+
+    public moduleName(filePath: string): { name: string; root: string } {
+        const dirs = filePath.split('/');
+        const fileName = dirs.pop()!;
+        const parts = fileName === '__init__.py' ? [] : [fileName.slice(0, -3)];
+        while (dirs.length > 0 && this._paths.has([...dirs, '__init__.py'].join('/'))) {
+            parts.unshift(dirs.pop()!);
+        }
+        return { name: parts.join('.'), root: dirs.join('/') };
+    }
+
+    public find(name: string, root: string): string | null {
+        const candidates = this._byName.get(name) ?? [];
+        return (candidates.find(c => c.root === root) ?? candidates[0])?.path ?? null;
+    }
+}
+
+/**
+ * Python analysis results persisted in workspaceState, one entry per file path.
+ * An entry is reused while the file content, the interpreter and the analyzer version are
+ * unchanged, and the file's module name and every module it looked up still resolve the
+ * same way. Adding or removing unrelated files keeps it.
+ */
+export class ParseCache {
+    private readonly _state: vscode.Memento;
+    private readonly _entries: Record<string, CacheEntry>;
+
+    constructor(state: vscode.Memento) {
+        this._state = state;
+        this._entries = { ...state.get<Record<string, CacheEntry>>(CACHE_KEY, {}) };
+    }
+
+    /**
+     * Analyzes the files that are not cached yet and returns results for all of them.
+     */
+    public async analyze(
+        files: Record<string, string>,
+        modulePaths: string[]
+    ): Promise<Record<string, Omit<PythonModuleAnalysis, 'lookups'>>> {
+        const versionHash = sha1([ANALYZER_VERSION, getPythonPath()].join('\n'));
+        const index = new ModuleIndex([...Object.keys(files), ...modulePaths]);
+        const hashes: Record<string, string> = {};
+        const results: Record<string, Omit<PythonModuleAnalysis, 'lookups'>> = {};
+        const misses: Record<string, string> = {};
+
+        for (const [filePath, source] of Object.entries(files)) {
+            hashes[filePath] = sha1(`${versionHash}\0${source}`);
+            const entry = this._entries[filePath];
+            if (entry && entry.hash === hashes[filePath] && this._resolvesSame(entry, filePath, index)) {
+                results[filePath] = entry.analysis;
+            } else {
+                misses[filePath] = source;
+            }
+        }
+
+        if (Object.keys(misses).length > 0) {
+            const analyzed = await analyzePythonFiles(misses, modulePaths);
+            for (const [filePath, { lookups, ...analysis }] of Object.entries(analyzed)) {
+                results[filePath] = analysis;
+                this._entries[filePath] = {
+                    hash: hashes[filePath],
+                    root: index.moduleName(filePath).root,
+                    lookups: lookups ?? {},
+                    analysis
+                };
+            }
+        }
+
+        return results;
+    }
+
+    private _resolvesSame(entry: CacheEntry, filePath: string, index: ModuleIndex): boolean {
+        const { name, root } = index.moduleName(filePath);
+        return name === entry.analysis.moduleName && root === entry.root
+            && Object.entries(entry.lookups).every(([module, resolved]) => index.find(module, root) === resolved);
+    }
+
+    /**
+     * Drops entries for files that are no longer part of the workspace.
+     */
+    public prune(filePaths: string[]) {
+        const keep = new Set(filePaths);
+        Object.keys(this._entries)
+            .filter(filePath => !keep.has(filePath))
+            .forEach(filePath => delete this._entries[filePath]);
+    }
+
+    public async save() {
+        await this._state.update(CACHE_KEY, this._entries);
+    }
+}
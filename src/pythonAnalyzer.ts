@@ -0,0 +1,462 @@
+import * as cp from 'child_process';
+import * as crypto from 'crypto';
+import { getPythonPath } from './pythonEnvironments';
+
+// Result types (mirrored in webview-ui/src/types.ts)
+export interface PythonCallSite {
+    name: string;           // Dotted callee expression, e.g. "helper" or "utils.logger"
+    line: number;
+    target: string | null;  // Qualname of the callee (function, method or class) inside the target module
+    module: string | null;  // Workspace path of the target module, null when it is this module
+    kind: 'local' | 'import' | 'external' | 'unresolved';
+}
+
+export interface PythonFunctionInfo {
+    name: string;
+    qualname: string;
+    kind: 'function' | 'method';
+    isAsync: boolean;
+    parent: string | null;
+    startLine: number;      // First decorator line, 1-based
+    defLine: number;
+    endLine: number;
+    signature: string;
+    decorators: string[];
+    docstring: string | null;
+    calls: PythonCallSite[];
+}
+
+export interface PythonClassInfo {
+    name: string;
+    qualname: string;
+    parent: string | null;
+    startLine: number;
+    defLine: number;
+    endLine: number;
+    bases: Array<{ name: string; target: string | null; module: string | null }>;
+    decorators: string[];
+    docstring: string | null;
+}
+
+export interface PythonImport {
+    module: string;         // Absolute dotted module name
+    line: number;
+    kind: 'internal' | 'stdlib' | 'external';
+    path: string | null;    // Workspace path when the module is part of the workspace
+}
+
+export interface PythonModuleAnalysis {
+    moduleName: string;
+    functions: PythonFunctionInfo[];
+    classes: PythonClassInfo[];
+    imports: PythonImport[];
+    // Names bound by imports to workspace modules, e.g. {"start": {path: "pkg/core.py", attr: "run"}}
+    bindings: Record<string, { path: string; attr: string | null }>;
+    // Module names looked up in the workspace, with the path each resolved to (null when not found)
+    lookups: Record<string, string | null>;
+    error?: string;
+}
+
+const ANALYSIS_TIMEOUT_MS = 30000;
+
+/**
+ * Walks each module with the stdlib `ast` module. Reads {"files": {path: source}, "modulePaths": [path]}
+ * from stdin (modulePaths lists every workspace module so imports of files that were
+ * not sent can still be resolved) and prints {"modules": {path: analysis}} to stdout.
+ */
+const ANALYZER_SCRIPT = String.raw`
+import ast, importlib.util, json, sys, sysconfig
+
+def dotted_name(node):
+    parts = []
+    while isinstance(node, ast.Attribute):
+        parts.append(node.attr)
+        node = node.value
+    if isinstance(node, ast.Name):
+        parts.append(node.id)
+        return '.'.join(reversed(parts))
+    return None
+
+def unparse(node):
+    if hasattr(ast, 'unparse'):
+        return ast.unparse(node)
+    return dotted_name(node) or '...'
+
+def format_signature(node):
+    prefix = 'async def ' if isinstance(node, ast.AsyncFunctionDef) else 'def '
+    sig = prefix + node.name + '(' + unparse(node.args) + ')'
+    if node.returns is not None:
+        sig += ' -> ' + unparse(node.returns)
+    return sig
+
+FUNCTION_TYPES = (ast.FunctionDef, ast.AsyncFunctionDef)
+MEMBER_HEADS = ('self', 'cls', 'super()')
+STDLIB_DIR = sysconfig.get_paths().get('stdlib', '')
+
+def is_stdlib(top):
+    if hasattr(sys, 'stdlib_module_names'):
+        return top in sys.stdlib_module_names
+    if top in sys.builtin_module_names:
+        return True
+    try:
+        spec = importlib.util.find_spec(top)
+    except Exception:
+        return False
+    origin = (spec and spec.origin) or ''
+    return bool(STDLIB_DIR) and origin.startswith(STDLIB_DIR) and 'site-packages' not in origin
+
+class ModuleIndex:
+    # Maps dotted module names to workspace paths, following the __init__.py package layout
+    def __init__(self, paths):
+        self.paths = set(paths)
+        self.names = {}
+        self.by_name = {}
+        for path in sorted(self.paths):
+            name, root = self.module_name(path)
+            self.names[path] = (name, root)
+            if name:
+                self.by_name.setdefault(name, []).append((root, path))
+
+    def module_name(self, path):
+        dirs = path.split('/')
+        filename = dirs.pop()
+        parts = [] if filename == '__init__.py' else [filename[:-3]]
+        while dirs and '/'.join(dirs + ['__init__.py']) in self.paths:
+            parts.insert(0, dirs.pop())
+        return '.'.join(parts), '/'.join(dirs)
+
+    def find(self, name, root):
+        # Prefer the importer's own source root (e.g. "src/"), like sys.path[0] does
+        candidates = self.by_name.get(name, [])
+        for candidate_root, path in candidates:
+            if candidate_root == root:
+                return path
+        return candidates[0][1] if candidates else None
+
+class Scope:
+    def __init__(self, kind, qualname, parent):
+        self.kind = kind
+        self.qualname = qualname
+        self.parent = parent
+        self.defs = {}
+        self.bases = []
+
+class ModuleAnalyzer:
+    def __init__(self, path, index):
+        self.path = path
+        self.index = index
+        self.module, self.root = index.names.get(path, ('', ''))
+        self.functions = []
+        self.classes = []
+        self.class_scopes = {}
+        self.pending_calls = []
+        self.imports = []
+        self.bindings = {}
+        self.lookups = {}
+
+    def find(self, name):
+        # Recorded, so a cached result can be checked against a changed set of workspace modules
+        path = self.lookups[name] = self.index.find(name, self.root)
+        return path
+
+    def absolute_module(self, module, level):
+        if level == 0:
+            return module
+        package = self.module.split('.') if self.module else []
+        if not self.path.endswith('__init__.py'):
+            package = package[:-1]
+        if level - 1 > len(package):
+            return None
+        package = package[:len(package) - (level - 1)]
+        return '.'.join(package + ([module] if module else []))
+
+    def add_import(self, module, path, line, level=0):
+        if any(i['module'] == module for i in self.imports):
+            return
+        if path:
+            kind = 'internal'
+        elif level == 0 and is_stdlib(module.split('.')[0]):
+            kind = 'stdlib'
+        else:
+            kind = 'external'
+        self.imports.append({'module': module, 'path': path, 'line': line, 'kind': kind})
+
+    def bind(self, local, module, path, attr):
+        self.bindings[local] = {'module': module, 'path': path, 'attr': attr}
+
+    def collect_imports(self, tree):
+        # Imports anywhere in the file (including lazy ones inside functions) bind at module level
+        for node in ast.walk(tree):
+            if isinstance(node, ast.Import):
+                for alias in node.names:
+                    path = self.find(alias.name)
+                    self.add_import(alias.name, path, node.lineno)
+                    if alias.asname:
+                        self.bind(alias.asname, alias.name, path, None)
+                    else:
+                        # "import a.b" binds "a"; calls through "a.b." match the longer binding first
+                        top = alias.name.split('.')[0]
+                        self.bind(top, top, self.find(top), None)
+                        self.bind(alias.name, alias.name, path, None)
+            elif isinstance(node, ast.ImportFrom):
+                base = self.absolute_module(node.module, node.level)
+                if base is None:
+                    self.add_import('.' * node.level + (node.module or ''), None, node.lineno, node.level)
+                    continue
+                base_path = self.find(base) if base else None
+                for alias in node.names:
+                    if alias.name == '*':
+                        self.add_import(base, base_path, node.lineno, node.level)
+                        continue
+                    local = alias.asname or alias.name
+                    submodule = base + '.' + alias.name if base else alias.name
+                    submodule_path = self.find(submodule)
+                    if submodule_path:
+                        self.add_import(submodule, submodule_path, node.lineno, node.level)
+                        self.bind(local, submodule, submodule_path, None)
+                    else:
+                        self.add_import(base, base_path, node.lineno, node.level)
+                        self.bind(local, base, base_path, alias.name)
+
+    def qualify(self, scope, name):
+        return scope.qualname + '.' + name if scope.qualname else name
+
+    def collect_defs(self, scope, body):
+        for stmt in body:
+            for node in self.iter_definitions(stmt):
+                scope.defs[node.name] = self.qualify(scope, node.name)
+
+    def resolve(self, scope, name):
+        # Class bodies are not enclosing scopes for the functions inside them
+        current = scope
+        while current is not None:
+            if current.kind != 'class' and name in current.defs:
+                return current.defs[name]
+            current = current.parent
+        return None
+
+    def enclosing_class(self, scope):
+        current = scope
+        while current is not None:
+            if current.kind == 'class':
+                return current
+            current = current.parent
+        return None
+
+    def lookup_method(self, class_scope, name, seen=None, skip_own=False):
+        # Walks the in-module base classes depth-first, approximating the MRO
+        seen = seen or set()
+        if class_scope is None or class_scope.qualname in seen:
+            return None
+        seen.add(class_scope.qualname)
+        if not skip_own and name in class_scope.defs:
+            return class_scope.defs[name]
+        for base in class_scope.bases:
+            base_qualname = self.resolve(class_scope.parent, base) if '.' not in base else None
+            found = self.lookup_method(self.class_scopes.get(base_qualname), name, seen)
+            if found:
+                return found
+        return None
+
+    def resolve_call(self, scope, name):
+        # Returns (target qualname, module path or None for this module, kind)
+        parts = name.split('.')
+        if parts[0] in MEMBER_HEADS or self.resolve(scope, parts[0]):
+            target = self.resolve_local(scope, parts)
+            return target, None, 'local' if target else 'unresolved'
+        # Longest imported prefix wins, e.g. "pkg.mod" for pkg.mod.func()
+        for i in range(len(parts), 0, -1):
+            binding = self.bindings.get('.'.join(parts[:i]))
+            if binding:
+                return self.resolve_import(binding, parts[i:])
+        return None, None, 'unresolved'
+
+    def resolve_import(self, binding, rest):
+        if not binding['path']:
+            return None, None, 'external'
+        module, path = binding['module'], binding['path']
+        rest = ([binding['attr']] if binding['attr'] else []) + rest
+        # Descend into submodules, e.g. "import pkg" followed by pkg.sub.func()
+        while rest and self.find(module + '.' + rest[0]):
+            module += '.' + rest[0]
+            path = self.find(module)
+            rest = rest[1:]
+        return '.'.join(rest) or None, path, 'import'
+
+    def resolve_local(self, scope, parts):
+        if len(parts) == 1:
+            return self.resolve(scope, parts[0])
+        if len(parts) != 2:
+            return None
+        head, attr = parts
+        if head in ('self', 'cls'):
+            return self.lookup_method(self.enclosing_class(scope), attr)
+        if head == 'super()':
+            return self.lookup_method(self.enclosing_class(scope), attr, skip_own=True)
+        return self.lookup_method(self.class_scopes.get(self.resolve(scope, head)), attr)
+
+    def visit_body(self, scope, body):
+        self.collect_defs(scope, body)
+        for stmt in body:
+            for node in self.iter_definitions(stmt):
+                if isinstance(node, ast.ClassDef):
+                    self.visit_class(scope, node)
+                else:
+                    self.visit_function(scope, node)
+
+    def visit_class(self, scope, node):
+        qualname = self.qualify(scope, node.name)
+        class_scope = Scope('class', qualname, scope)
+        class_scope.bases = [b for b in (dotted_name(base) for base in node.bases) if b]
+        self.class_scopes[qualname] = class_scope
+
+        start = min([d.lineno for d in node.decorator_list] + [node.lineno])
+        record = {
+            'name': node.name,
+            'qualname': qualname,
+            'parent': scope.qualname or None,
+            'startLine': start,
+            'defLine': node.lineno,
+            'endLine': node.end_lineno,
+            'bases': [{'name': base, 'target': None, 'module': None} for base in class_scope.bases],
+            'decorators': ['@' + unparse(d) for d in node.decorator_list],
+            'docstring': ast.get_docstring(node),
+        }
+        self.classes.append(record)
+        self.visit_body(class_scope, node.body)
+
+    def iter_definitions(self, node):
+        # Yields the outermost defs under node without descending into them
+        if isinstance(node, FUNCTION_TYPES) or isinstance(node, ast.ClassDef):
+            yield node
+            return
+        for child in ast.iter_child_nodes(node):
+            yield from self.iter_definitions(child)
+
+    def iter_calls(self, node):
+        for child in ast.iter_child_nodes(node):
+            if isinstance(child, FUNCTION_TYPES) or isinstance(child, ast.ClassDef):
+                continue
+            if isinstance(child, ast.Call):
+                yield child
+            yield from self.iter_calls(child)
+
+    def callee_name(self, func):
+        # super().method() has no dotted name of its own
+        if (isinstance(func, ast.Attribute) and isinstance(func.value, ast.Call)
+                and isinstance(func.value.func, ast.Name) and func.value.func.id == 'super'):
+            return 'super().' + func.attr
+        return dotted_name(func)
+
+    def visit_function(self, scope, node):
+        qualname = self.qualify(scope, node.name)
+        fn_scope = Scope('function', qualname, scope)
+        self.collect_defs(fn_scope, node.body)
+
+        calls = []
+        for stmt in node.body:
+            if isinstance(stmt, FUNCTION_TYPES) or isinstance(stmt, ast.ClassDef):
+                continue
+            for call in self.iter_calls(stmt):
+                name = self.callee_name(call.func)
+                if not name:
+                    continue
+                site = {'name': name, 'line': call.lineno, 'target': None, 'module': None, 'kind': 'unresolved'}
+                self.pending_calls.append((fn_scope, site))
+                calls.append(site)
+
+        start = min([d.lineno for d in node.decorator_list] + [node.lineno])
+        self.functions.append({
+            'name': node.name,
+            'qualname': qualname,
+            'kind': 'method' if scope.kind == 'class' else 'function',
+            'isAsync': isinstance(node, ast.AsyncFunctionDef),
+            'parent': scope.qualname or None,
+            'startLine': start,
+            'defLine': node.lineno,
+            'endLine': node.end_lineno,
+            'signature': format_signature(node),
+            'decorators': ['@' + unparse(d) for d in node.decorator_list],
+            'docstring': ast.get_docstring(node),
+            'calls': calls,
+        })
+
+        self.visit_body(fn_scope, node.body)
+
+    def finish(self):
+        # Resolve once every class is known, so forward references and later base classes work
+        for scope, site in self.pending_calls:
+            site['target'], site['module'], site['kind'] = self.resolve_call(scope, site['name'])
+        for record in self.classes:
+            scope = self.class_scopes[record['qualname']]
+            for base in record['bases']:
+                target, module, kind = self.resolve_call(scope.parent, base['name'])
+                if kind == 'local' and target not in self.class_scopes:
+                    target = None
+                base['target'], base['module'] = target, module
+
+def analyze(source, path, index):
+    module_name = index.names.get(path, ('', ''))[0]
+    try:
+        tree = ast.parse(source, filename=path)
+    except SyntaxError as e:
+        return {'moduleName': module_name, 'functions': [], 'classes': [], 'imports': [], 'bindings': {}, 'lookups': {},
+                'error': 'SyntaxError: %s (line %s)' % (e.msg, e.lineno)}
+    analyzer = ModuleAnalyzer(path, index)
+    analyzer.collect_imports(tree)
+    analyzer.visit_body(Scope('module', '', None), tree.body)
+    analyzer.finish()
+    analyzer.functions.sort(key=lambda f: f['startLine'])
+    analyzer.classes.sort(key=lambda c: c['startLine'])
+    bindings = {local: {'path': b['path'], 'attr': b['attr']} for local, b in analyzer.bindings.items() if b['path']}
+    return {'moduleName': module_name, 'functions': analyzer.functions, 'classes': analyzer.classes,
+            'imports': analyzer.imports, 'bindings': bindings, 'lookups': analyzer.lookups}
+
+request = json.loads(sys.stdin.buffer.read().decode('utf-8'))
+index = ModuleIndex(list(request['files']) + request.get('modulePaths', []))
+modules = {path: analyze(source, path, index) for path, source in request['files'].items()}
+json.dump({'modules': modules}, sys.stdout)
+`;
+
+// Changes whenever the analyzer script does, so cached results from older versions are not reused
+export const ANALYZER_VERSION = crypto.createHash('sha1').update(ANALYZER_SCRIPT).digest('hex').slice(0, 12);
+
+export async function analyzePythonFiles(
+    files: Record<string, string>,
+    modulePaths: string[] = []
+): Promise<Record<string, PythonModuleAnalysis>> {
+    const pythonPath = getPythonPath();
+
+    const stdout = await new Promise<string>((resolve, reject) => {
+        const child = cp.spawn(pythonPath, ['-c', ANALYZER_SCRIPT]);
+        let out = '';
+        let err = '';
+
+        const timer = setTimeout(() => {
+            child.kill();
+            reject(new Error(`Python analysis timed out after ${ANALYSIS_TIMEOUT_MS / 1000}s`));
+        }, ANALYSIS_TIMEOUT_MS);
+
+        child.stdout.on('data', (chunk) => { out += chunk; });
+        child.stderr.on('data', (chunk) => { err += chunk; });
+        child.on('error', (e) => {
+            clearTimeout(timer);
+            reject(new Error(`Failed to start ${pythonPath}: ${e.message}`));
+        });
+        child.on('close', (code) => {
+            clearTimeout(timer);
+            if (code === 0) {
+                resolve(out);
+            } else {
+                reject(new Error(err.trim() || `Python analysis exited with code ${code}`));
+            }
+        });
+
+        // A Python that exits before reading its input (bad path, wrong version) breaks the pipe;
+        // the close handler then reports the exit code and stderr
+        child.stdin.on('error', () => {});
+        child.stdin.end(JSON.stringify({ files, modulePaths }), 'utf8');
+    });
+
+    return JSON.parse(stdout).modules;
+}
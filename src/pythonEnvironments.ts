@@ -0,0 +1,172 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type PythonEnvironmentKind = 'venv' | 'poetry' | 'conda' | 'system';
+
+export interface PythonEnvironment {
+    kind: PythonEnvironmentKind;
+    name: string;
+    pythonPath: string;
+}
+
+export interface ActiveInterpreter {
+    pythonPath: string;
+    name: string;
+    source: 'setting' | PythonEnvironmentKind;
+}
+
+const VENV_DIRS = ['.venv', 'venv', 'env'];
+const DISCOVERY_TIMEOUT_MS = 10000;
+
+function interpreterIn(envDir: string): string | undefined {
+    const candidates = process.platform === 'win32'
+        ? [path.join(envDir, 'Scripts', 'python.exe'), path.join(envDir, 'python.exe')]
+        : [path.join(envDir, 'bin', 'python3'), path.join(envDir, 'bin', 'python')];
+    return candidates.find(candidate => fs.existsSync(candidate));
+}
+
+function findVirtualEnv(folder: vscode.WorkspaceFolder): PythonEnvironment | undefined {
+    for (const dir of VENV_DIRS) {
+        const pythonPath = interpreterIn(path.join(folder.uri.fsPath, dir));
+        if (pythonPath) {
+            return { kind: 'venv', name: `${dir} (${folder.name})`, pythonPath };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Runs a tool and returns its stdout, or undefined when it is not installed or fails.
+ */
+function runTool(command: string, args: string[], cwd?: string): Promise<string | undefined> {
+    return new Promise(resolve => {
+        cp.execFile(command, args, { cwd, timeout: DISCOVERY_TIMEOUT_MS }, (error, stdout) => {
+            resolve(error ? undefined : stdout);
+        });
+    });
+}
+
+async function findPoetryEnvs(folder: vscode.WorkspaceFolder): Promise<PythonEnvironment[]> {
+    const pyproject = path.join(folder.uri.fsPath, 'pyproject.toml');
+    if (!fs.existsSync(pyproject) || !fs.readFileSync(pyproject, 'utf8').includes('[tool.poetry')) {
+        return [];
+    }
+
+    const stdout = await runTool('poetry', ['env', 'list', '--full-path'], folder.uri.fsPath);
+    return (stdout ?? '')
+        .split('\n')
+        .map(line => line.replace(/\(Activated\)\s*$/, '').trim())
+        .filter(Boolean)
+        .flatMap(envDir => {
+            const pythonPath = interpreterIn(envDir);
+            return pythonPath ? [{ kind: 'poetry' as const, name: `Poetry: ${path.basename(envDir)}`, pythonPath }] : [];
+        });
+}
+
+async function findCondaEnvs(): Promise<PythonEnvironment[]> {
+    const stdout = await runTool(process.env.CONDA_EXE || 'conda', ['env', 'list', '--json']);
+    if (!stdout) {
+        return [];
+    }
+
+    try {
+        const envs: string[] = JSON.parse(stdout).envs ?? [];
+        return envs.flatMap(envDir => {
+            const pythonPath = interpreterIn(envDir);
+            return pythonPath ? [{ kind: 'conda' as const, name: `Conda: ${path.basename(envDir)}`, pythonPath }] : [];
+        });
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Workspace virtualenvs, Poetry and conda environments, and the python3 on PATH.
+ * Poetry and conda are only listed when their command line tools are installed.
+ */
+export async function discoverPythonEnvironments(): Promise<PythonEnvironment[]> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const venvs = folders.flatMap(folder => {
+        const env = findVirtualEnv(folder);
+        return env ? [env] : [];
+    });
+    const [poetry, conda] = await Promise.all([
+        Promise.all(folders.map(findPoetryEnvs)).then(lists => lists.flat()),
+        findCondaEnvs()
+    ]);
+
+    // The same environment can show up more than once, e.g. a Poetry env created in .venv
+    const byPath = new Map<string, PythonEnvironment>();
+    [...venvs, ...poetry, ...conda, { kind: 'system' as const, name: 'System python3', pythonPath: 'python3' }]
+        .forEach(env => {
+            if (!byPath.has(env.pythonPath)) byPath.set(env.pythonPath, env);
+        });
+    return [...byPath.values()];
+}
+
+/**
+ * The interpreter used for running and analyzing code: tektite.pythonPath when set,
+ * otherwise a .venv/venv/env in the workspace folder, otherwise python3 on PATH.
+ */
+export function getActiveInterpreter(resource?: vscode.Uri): ActiveInterpreter {
+    const configured = vscode.workspace
+        .getConfiguration('tektite', resource)
+        .get<string>('pythonPath', '');
+    if (configured) {
+        return { pythonPath: configured, name: configured, source: 'setting' };
+    }
+
+    const folder = (resource && vscode.workspace.getWorkspaceFolder(resource)) ?? vscode.workspace.workspaceFolders?.[0];
+    const venv = folder && findVirtualEnv(folder);
+    if (venv) {
+        return { pythonPath: venv.pythonPath, name: venv.name, source: 'venv' };
+    }
+
+    return { pythonPath: 'python3', name: 'python3', source: 'system' };
+}
+
+export function getPythonPath(resource?: vscode.Uri): string {
+    return getActiveInterpreter(resource).pythonPath;
+}
+
+/**
+ * Quick pick of the discovered environments. The choice is saved to tektite.pythonPath
+ * in the workspace settings; "Detect automatically" clears it.
+ */
+export async function selectInterpreter(): Promise<void> {
+    type InterpreterItem = vscode.QuickPickItem & { pythonPath?: string; browse?: boolean };
+
+    const current = getPythonPath();
+    const picked = await vscode.window.showQuickPick<InterpreterItem>(
+        discoverPythonEnvironments().then(envs => [
+            { label: '$(search) Detect automatically', description: 'Workspace .venv/venv, then python3', pythonPath: '' },
+            { label: '$(folder) Enter interpreter path...', browse: true },
+            { label: 'Environments', kind: vscode.QuickPickItemKind.Separator },
+            ...envs.map(env => ({
+                label: `${env.pythonPath === current ? '$(check) ' : ''}${env.name}`,
+                description: env.pythonPath,
+                pythonPath: env.pythonPath
+            }))
+        ]),
+        { placeHolder: `Select the Python interpreter for Tektite (current: ${current})`, matchOnDescription: true }
+    );
+    if (!picked) {
+        return;
+    }
+
+    let pythonPath = picked.pythonPath;
+    if (picked.browse) {
+        const uris = await vscode.window.showOpenDialog({ canSelectMany: false, openLabel: 'Select Interpreter' });
+        pythonPath = uris?.[0]?.fsPath;
+    }
+    if (pythonPath === undefined) {
+        return;
+    }
+
+    const target = vscode.workspace.workspaceFolders
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global;
+    await vscode.workspace.getConfiguration('tektite').update('pythonPath', pythonPath || undefined, target);
+}
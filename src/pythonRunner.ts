@@ -1,55 +1,237 @@
 import * as vscode from 'vscode';
+import * as cp from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { getPythonPath } from './pythonEnvironments';
 
-let pythonTerminal: vscode.Terminal | undefined;
+export interface PythonRunResult {
+    exitCode: number | null;
+    signal: string | null;
+    durationMs: number;
+    timedOut: boolean;
+    cancelled: boolean;
+}
 
-export async function runPythonCode(code: string): Promise<string> {
-    // 1. Write code to temp file
-    const tempDir = os.tmpdir();
-    const tempFile = path.join(tempDir, `tektite_${Date.now()}.py`);
+export type PythonOutputCallback = (stream: 'stdout' | 'stderr', text: string) => void;
 
-    try {
-        fs.writeFileSync(tempFile, code, 'utf8');
-    } catch (err: any) {
-        return `Error writing temp file: ${err.message}`;
-    }
+// Cancel functions of the runs in progress, by run id
+const runningProcesses = new Map<string, () => void>();
 
-    // 2. Get Python path from settings
-    const pythonPath = vscode.workspace
+function getRunTimeoutMs(): number {
+    const seconds = vscode.workspace
         .getConfiguration('tektite')
-        .get<string>('pythonPath', 'python3');
+        .get<number>('runTimeout', 30);
+    return seconds > 0 ? seconds * 1000 : 0;
+}
+
+export interface PythonFunctionTarget {
+    filePath: string;       // Absolute path of the module file
+    moduleName: string;     // Dotted module name, '' when unknown (loaded from the file path instead)
+    qualname: string;       // e.g. "helper" or "Cls.method"
+    args: string;           // Python argument list, e.g. "10, verbose=True"
+}
+
+/**
+ * Imports the target module, calls the function and writes repr() of the return value to
+ * argv[1]. Arguments are evaluated in the module namespace, so they can use its globals.
+ * Instance methods run on an instance made with no arguments; classes whose constructor
+ * needs arguments exit with a message saying so.
+ */
+const FUNCTION_RUNNER_SCRIPT = String.raw`
+import asyncio, importlib, importlib.util, inspect, sys
+
+result_file, file_path, module_name, source_root, workspace_root, qualname, args_text = sys.argv[1:8]
+sys.argv = [file_path]
+for entry in (workspace_root, source_root):
+    if entry and entry not in sys.path:
+        sys.path.insert(0, entry)
+
+if module_name:
+    module = importlib.import_module(module_name)
+else:
+    spec = importlib.util.spec_from_file_location('__tektite_target__', file_path)
+    module = importlib.util.module_from_spec(spec)
+    sys.modules[spec.name] = module
+    spec.loader.exec_module(module)
+
+target = module
+for part in qualname.split('.'):
+    owner = target
+    if not hasattr(owner, part):
+        sys.exit('Cannot reach %s: nested functions only run through their enclosing function' % qualname)
+    target = getattr(owner, part)
+    if inspect.isclass(owner) and inspect.isfunction(target) and not isinstance(inspect.getattr_static(owner, part), staticmethod):
+        try:
+            signature = inspect.signature(owner)
+        except (TypeError, ValueError):
+            signature = None
+        if signature is not None:
+            try:
+                signature.bind()
+            except TypeError:
+                sys.exit('Cannot run %s: methods run on an instance made with no arguments, but %s%s needs some. '
+                         'Run a function that creates the instance instead' % (qualname, owner.__name__, signature))
+        target = getattr(owner(), part)
+
+args, kwargs = eval('(lambda *a, **k: (a, k))(%s)' % args_text, vars(module))
+result = target(*args, **kwargs)
+if inspect.iscoroutine(result):
+    result = asyncio.run(result)
+
+with open(result_file, 'w', encoding='utf-8') as f:
+    f.write(repr(result))
+`;
+
+function spawnPython(
+    runId: string,
+    args: string[],
+    cwd: string | undefined,
+    onOutput: PythonOutputCallback
+): Promise<PythonRunResult> {
+    const pythonPath = getPythonPath(cwd ? vscode.Uri.file(cwd) : undefined);
+    const timeoutMs = getRunTimeoutMs();
+    const startTime = Date.now();
+
+    return new Promise<PythonRunResult>((resolve, reject) => {
+        const child = cp.spawn(pythonPath, args, {
+            cwd,
+            env: {
+                ...process.env,
+                // Sibling modules import the same way they do when run from the workspace root
+                PYTHONPATH: [cwd, process.env.PYTHONPATH].filter(Boolean).join(path.delimiter),
+                // Unbuffered so print() output shows up while the code is still running
+                PYTHONUNBUFFERED: '1',
+                PYTHONIOENCODING: 'utf-8'
+            }
+        });
+        let timedOut = false;
+        let cancelled = false;
+
+        const timer = timeoutMs > 0
+            ? setTimeout(() => {
+                timedOut = true;
+                child.kill();
+            }, timeoutMs)
+            : undefined;
 
-    // 3. Create or reuse terminal
-    if (!pythonTerminal || pythonTerminal.exitStatus !== undefined) {
-        pythonTerminal = vscode.window.createTerminal({
-            name: 'Tektite Python',
-            hideFromUser: false
+        runningProcesses.set(runId, () => {
+            cancelled = true;
+            child.kill();
         });
+
+        const cleanup = () => {
+            clearTimeout(timer);
+            runningProcesses.delete(runId);
+        };
+
+        child.stdout.setEncoding('utf8');
+        child.stderr.setEncoding('utf8');
+        child.stdout.on('data', (chunk: string) => onOutput('stdout', chunk));
+        child.stderr.on('data', (chunk: string) => onOutput('stderr', chunk));
+
+        // The code may exit without reading its stdin; the close handler reports how it ended
+        child.stdin.on('error', () => {});
+        child.on('error', (e) => {
+            cleanup();
+            reject(new Error(`Failed to start ${pythonPath}: ${e.message}`));
+        });
+        child.on('close', (exitCode, signal) => {
+            cleanup();
+            resolve({
+                exitCode,
+                signal,
+                durationMs: Date.now() - startTime,
+                timedOut,
+                cancelled
+            });
+        });
+    });
+}
+
+/**
+ * Calls `use` with a new temporary directory and removes the directory afterwards. Each run
+ * gets its own, so runs started at the same moment (e.g. from two panels) never share files.
+ */
+async function withTempDir<T>(use: (dir: string) => Promise<T>): Promise<T> {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'tektite-'));
+    try {
+        return await use(dir);
+    } finally {
+        fs.rm(dir, { recursive: true, force: true }, () => { /* Ignore cleanup errors */ });
     }
+}
 
-    // 4. Show terminal and execute
-    pythonTerminal.show(true);
-    pythonTerminal.sendText(`${pythonPath} "${tempFile}"`);
+/**
+ * Runs the code in a child process, streaming stdout/stderr to onOutput as it arrives.
+ * Resolves once the process has exited (normally, on timeout or when cancelled).
+ */
+export async function runPythonCode(
+    runId: string,
+    code: string,
+    onOutput: PythonOutputCallback
+): Promise<PythonRunResult> {
+    return withTempDir(async dir => {
+        const tempFile = path.join(dir, 'tektite_run.py');
+        fs.writeFileSync(tempFile, code, 'utf8');
+        return spawnPython(runId, [tempFile], vscode.workspace.workspaceFolders?.[0]?.uri.fsPath, onOutput);
+    });
+}
 
-    // 5. Schedule cleanup after delay
-    setTimeout(() => {
-        try {
-            if (fs.existsSync(tempFile)) {
-                fs.unlinkSync(tempFile);
-            }
-        } catch (e) {
-            // Ignore cleanup errors
-        }
-    }, 10000);
+/**
+ * Calls one function inside its real module, with the module's source root and the
+ * workspace folder on sys.path and the workspace folder as the working directory.
+ */
+export async function runPythonFunction(
+    runId: string,
+    target: PythonFunctionTarget,
+    onOutput: PythonOutputCallback
+): Promise<PythonRunResult & { returnValue?: string }> {
+    const workspaceRoot = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(target.filePath))?.uri.fsPath
+        ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+
+    // Walk up one directory per package level, e.g. src/pkg/core.py as "pkg.core" -> src/
+    let sourceRoot = path.dirname(target.filePath);
+    const depth = target.moduleName
+        ? target.moduleName.split('.').length - (path.basename(target.filePath) === '__init__.py' ? 0 : 1)
+        : 0;
+    for (let i = 0; i < depth; i++) {
+        sourceRoot = path.dirname(sourceRoot);
+    }
 
-    return `>>> Running code in terminal...\n>>> File: ${tempFile}`;
+    return withTempDir(async dir => {
+        const resultFile = path.join(dir, 'result.txt');
+        const args = [
+            '-c', FUNCTION_RUNNER_SCRIPT,
+            resultFile, target.filePath, target.moduleName, sourceRoot, workspaceRoot ?? '', target.qualname, target.args
+        ];
+
+        const result = await spawnPython(runId, args, workspaceRoot, onOutput);
+        const returnValue = result.exitCode === 0 && fs.existsSync(resultFile)
+            ? fs.readFileSync(resultFile, 'utf8')
+            : undefined;
+        return { ...result, returnValue };
+    });
 }
 
-export function disposeTerminal() {
-    if (pythonTerminal) {
-        pythonTerminal.dispose();
-        pythonTerminal = undefined;
+/**
+ * Kills a running process. Returns false if the run already finished.
+ */
+export function cancelPythonRun(runId: string): boolean {
+    const cancel = runningProcesses.get(runId);
+    if (!cancel) {
+        return false;
     }
+
+    cancel();
+    return true;
+}
+
+/**
+ * Kills every running process whose run id starts with the prefix, e.g. the runs of a closed panel.
+ */
+export function cancelPythonRuns(prefix: string) {
+    [...runningProcesses.keys()]
+        .filter(runId => runId.startsWith(prefix))
+        .forEach(runId => cancelPythonRun(runId));
 }
@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * Workspace-relative, forward-slash path used as the file identity in the webview.
+ * Multi-root workspaces prefix the path with the workspace folder name.
+ * Returns undefined for files outside the workspace.
+ */
+export function toWorkspacePath(uri: vscode.Uri): string | undefined {
+    if (!vscode.workspace.getWorkspaceFolder(uri)) {
+        return undefined;
+    }
+
+    return vscode.workspace.asRelativePath(uri, true).replace(/\\/g, '/');
+}
+
+/**
+ * Inverse of toWorkspacePath. Absolute paths are accepted as-is.
+ */
+export function resolveWorkspacePath(workspacePath: string): vscode.Uri {
+    if (path.isAbsolute(workspacePath)) {
+        return vscode.Uri.file(workspacePath);
+    }
+
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length === 0) {
+        throw new Error(`No workspace folder to resolve ${workspacePath} against`);
+    }
+
+    const segments = workspacePath.split('/');
+    if (folders.length > 1) {
+        const folder = folders.find(f => f.name === segments[0]);
+        if (folder) {
+            return vscode.Uri.joinPath(folder.uri, ...segments.slice(1));
+        }
+    }
+
+    return vscode.Uri.joinPath(folders[0].uri, ...segments);
+}
@@ -0,0 +1,234 @@
+import * as vscode from 'vscode';
+import { buildFileTree, FileTreeEntry, FileTreeItem } from './fileTree';
+import { discoverWorkspaceFiles, getIncludeGlob, languageOf, TruncatedLanguage } from './fileDiscovery';
+import { readDocumentText, getModifiedTime } from './documentEdits';
+import { toWorkspacePath } from './workspacePaths';
+
+// Checkouts and bulk edits arrive as bursts of events; they are handled together once they stop
+const CHANGE_DEBOUNCE_MS = 500;
+
+const DISCOVERY_SETTINGS = ['tektite.include', 'tektite.exclude', 'tektite.respectGitignore', 'tektite.maxFilesPerLanguage'];
+
+export interface WorkspaceFileChanges {
+    fileTree: FileTreeItem[];
+    truncated: TruncatedLanguage[];
+    files: Record<string, string>; // Added files, and files changed on disk that are not open in an editor
+    mtimes: Record<string, number>;
+    removed: string[];
+    renamed: Array<{ from: string; to: string }>; // Files renamed in VS Code (folders are expanded to their files)
+}
+
+type DiscoveredFile = FileTreeEntry & { uri: vscode.Uri };
+
+// Deleting a folder outside VS Code is reported for the folder only, by a watcher that sees
+// every path. One such watcher serves all panels; it only listens for deletes.
+let folderDeleteWatcher: { watcher: vscode.FileSystemWatcher; users: number } | undefined;
+
+function onDidDeleteAnyPath(listener: (uri: vscode.Uri) => void): vscode.Disposable {
+    folderDeleteWatcher ??= { watcher: vscode.workspace.createFileSystemWatcher('**/*', true, true, false), users: 0 };
+    folderDeleteWatcher.users++;
+    const subscription = folderDeleteWatcher.watcher.onDidDelete(listener);
+
+    return {
+        dispose: () => {
+            subscription.dispose();
+            if (folderDeleteWatcher && --folderDeleteWatcher.users === 0) {
+                folderDeleteWatcher.watcher.dispose();
+                folderDeleteWatcher = undefined;
+            }
+        }
+    };
+}
+
+/**
+ * Keeps the graph in step with the files on disk: files created, deleted, renamed or changed
+ * outside the editor (git checkouts, other tools). Creates, deletes, renames, .gitignore edits
+ * and setting changes run discovery again, so the graph follows the same include, exclude and
+ * .gitignore rules as the initial load; plain content changes only read the changed files.
+ * With `folder`, only files below it are watched, like a panel scoped to that folder loads.
+ */
+export class WorkspaceWatcher implements vscode.Disposable {
+    private readonly _onChange: (changes: WorkspaceFileChanges) => void;
+    private readonly _folder: vscode.Uri | undefined;
+    private readonly _disposables: vscode.Disposable[] = [];
+    private _fileWatcher: vscode.FileSystemWatcher | undefined;
+    // The files shown, by workspace path, and every folder above them
+    private _files: Map<string, DiscoveredFile> | undefined;
+    private _folders = new Set<string>();
+    private _truncated: TruncatedLanguage[] = [];
+    private _needsDiscovery = false;
+    private readonly _changedPaths = new Set<string>();
+    private readonly _renames: Array<{ from: string; to: string }> = [];
+    private _timer: NodeJS.Timeout | undefined;
+    private _update: Promise<void> = Promise.resolve();
+
+    constructor(onChange: (changes: WorkspaceFileChanges) => void, folder?: vscode.Uri) {
+        this._onChange = onChange;
+        this._folder = folder;
+
+        this._watchIncludedFiles();
+
+        // .gitignore edits change which files are shown
+        const gitignorePattern = folder ? new vscode.RelativePattern(folder, '**/.gitignore') : '**/.gitignore';
+        const gitignoreWatcher = vscode.workspace.createFileSystemWatcher(gitignorePattern);
+        gitignoreWatcher.onDidCreate(() => this._scheduleDiscovery(), null, this._disposables);
+        gitignoreWatcher.onDidChange(() => this._scheduleDiscovery(), null, this._disposables);
+        gitignoreWatcher.onDidDelete(() => this._scheduleDiscovery(), null, this._disposables);
+
+        const deleteWatcher = onDidDeleteAnyPath(uri => {
+            const deleted = toWorkspacePath(uri);
+            if (deleted && this._folders.has(deleted)) {
+                this._scheduleDiscovery();
+            }
+        });
+
+        const renameWatcher = vscode.workspace.onDidRenameFiles(e => {
+            e.files.forEach(({ oldUri, newUri }) => {
+                const from = toWorkspacePath(oldUri);
+                const to = toWorkspacePath(newUri);
+                if (from && to) this._renames.push({ from, to });
+            });
+            this._scheduleDiscovery();
+        });
+
+        const configWatcher = vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('tektite.include')) {
+                this._watchIncludedFiles();
+            }
+            if (DISCOVERY_SETTINGS.some(section => e.affectsConfiguration(section))) {
+                this._scheduleDiscovery();
+            }
+        });
+
+        this._disposables.push(gitignoreWatcher, deleteWatcher, renameWatcher, configWatcher);
+
+        // The files shown before the first change, to tell what was removed or added
+        this._update = this._discover()
+            .then(({ files, truncated }) => {
+                if (!this._files) {
+                    this._setFiles(files);
+                    this._truncated = truncated;
+                }
+            })
+            .catch(e => console.error('Failed to list workspace files:', e));
+    }
+
+    private _watchIncludedFiles() {
+        this._fileWatcher?.dispose();
+        const include = getIncludeGlob();
+        const pattern = include && this._folder ? new vscode.RelativePattern(this._folder, include) : include;
+        this._fileWatcher = pattern ? vscode.workspace.createFileSystemWatcher(pattern) : undefined;
+        this._fileWatcher?.onDidCreate(() => this._scheduleDiscovery());
+        this._fileWatcher?.onDidDelete(() => this._scheduleDiscovery());
+        this._fileWatcher?.onDidChange(uri => {
+            const changed = toWorkspacePath(uri);
+            if (!changed) return;
+            this._changedPaths.add(changed);
+            this._schedule();
+        });
+    }
+
+    private async _discover(): Promise<{ files: DiscoveredFile[]; truncated: TruncatedLanguage[] }> {
+        const { files, truncated } = await discoverWorkspaceFiles(this._folder);
+        return {
+            files: files.map(uri => ({
+                uri,
+                path: toWorkspacePath(uri) ?? uri.fsPath,
+                language: languageOf(uri.fsPath),
+                fullPath: uri.fsPath
+            })),
+            truncated
+        };
+    }
+
+    private _setFiles(files: DiscoveredFile[]) {
+        this._files = new Map(files.map(file => [file.path, file]));
+        this._folders = new Set(files.flatMap(file => {
+            const parts = file.path.split('/');
+            return parts.slice(1).map((_, i) => parts.slice(0, i + 1).join('/'));
+        }));
+    }
+
+    private _scheduleDiscovery() {
+        this._needsDiscovery = true;
+        this._schedule();
+    }
+
+    private _schedule() {
+        clearTimeout(this._timer);
+        this._timer = setTimeout(() => {
+            this._update = this._update.then(() => this._flush()).catch(e => console.error('Failed to update workspace files:', e));
+        }, CHANGE_DEBOUNCE_MS);
+    }
+
+    private async _flush() {
+        const changedPaths = [...this._changedPaths];
+        const renameEvents = this._renames.splice(0);
+        const needsDiscovery = this._needsDiscovery;
+        this._changedPaths.clear();
+        this._needsDiscovery = false;
+
+        const known = this._files ?? new Map<string, DiscoveredFile>();
+        let removed: string[] = [];
+        let added: string[] = [];
+        let truncatedChanged = false;
+
+        if (needsDiscovery) {
+            const { files, truncated } = await this._discover();
+            this._setFiles(files);
+            removed = [...known.keys()].filter(p => !this._files!.has(p));
+            added = [...this._files!.keys()].filter(p => !known.has(p));
+            truncatedChanged = JSON.stringify(truncated) !== JSON.stringify(this._truncated);
+            this._truncated = truncated;
+        }
+        const current = this._files ?? known;
+
+        // A renamed folder is reported once; each file below it is renamed with it
+        const renamed: WorkspaceFileChanges['renamed'] = [];
+        removed.forEach(from => {
+            const rename = renameEvents.find(r => from === r.from || from.startsWith(`${r.from}/`));
+            const to = rename && rename.to + from.slice(rename.from.length);
+            if (to && added.includes(to)) renamed.push({ from, to });
+        });
+
+        // Open documents reach the webview through their change events, unsaved changes included
+        const isOpen = (uri: vscode.Uri) => vscode.workspace.textDocuments.some(doc => doc.uri.toString() === uri.toString());
+        const toRead = [
+            ...added,
+            ...changedPaths.filter(p => known.has(p) && current.has(p) && !isOpen(current.get(p)!.uri))
+        ];
+
+        const files: Record<string, string> = {};
+        const mtimes: Record<string, number> = {};
+        await Promise.all(toRead.map(async filePath => {
+            const uri = current.get(filePath)!.uri;
+            try {
+                files[filePath] = await readDocumentText(uri);
+                mtimes[filePath] = (await getModifiedTime(uri)) ?? 0;
+            } catch (e) {
+                console.error(`Failed to read file: ${uri.fsPath}`, e);
+            }
+        }));
+
+        if (removed.length === 0 && added.length === 0 && Object.keys(files).length === 0 && !truncatedChanged) {
+            return;
+        }
+
+        this._onChange({
+            fileTree: buildFileTree([...current.values()]),
+            truncated: this._truncated,
+            files,
+            mtimes,
+            removed: removed.filter(p => !renamed.some(r => r.from === p)),
+            renamed
+        });
+    }
+
+    public dispose() {
+        clearTimeout(this._timer);
+        this._fileWatcher?.dispose();
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+}
@@ -1,22 +1,30 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { GraphCanvas } from './components/GraphCanvas';
 import { Toolbar, GraphLayout, ViewMode, EdgeFilters } from './components/Toolbar';
 import { RefactorPanel } from './components/RefactorPanel';
 import { CodeEditor } from './components/CodeEditor';
-import { INITIAL_FILES, INITIAL_FILE_TREE, generateGraphFromFiles } from './constants';
-import { NodeData, GraphData, FileMap, FileSystemItem, NodeType, EdgeType } from './types';
-import { PanelLeftOpen, Search, X } from 'lucide-react';
+import { INITIAL_FILES, INITIAL_FILE_TREE, GraphFragmentCache, generateGraphFromFiles } from './constants';
+import { NodeData, GraphData, FileMap, FileSystemItem, NodeType, EdgeType, PythonAnalysis, ConsoleLine } from './types';
+import { SearchBar, SearchMode, SearchResult } from './components/SearchBar';
+import { PanelLeftOpen, X, AlertTriangle, Loader2 } from 'lucide-react';
 import * as vscodeApi from './vscodeApi';
+import { computeSemanticLinks, defaultSimilarityThreshold, rankBySimilarity } from './similarity';
+import { moduleNameFromPath } from './duplicates';
+import { findSemanticClusters, clusterSignature, collapseClusters, describeCluster } from './clustering';
+import { applyGraphDiff, diffGraphStructure, renameGraphFiles, renamedNodeId } from './graphDiff';
+import { scopeGraph } from './scope';
 
-// Helper: Cosine Similarity
-function cosineSimilarity(vecA: number[], vecB: number[]) {
-    const dotProduct = vecA.reduce((sum, a, i) => sum + a * vecB[i], 0);
-    const magnitudeA = Math.sqrt(vecA.reduce((sum, a) => sum + a * a, 0));
-    const magnitudeB = Math.sqrt(vecB.reduce((sum, b) => sum + b * b, 0));
-    return (magnitudeA * magnitudeB) === 0 ? 0 : dotProduct / (magnitudeA * magnitudeB);
-}
+// Node edits are sent to the editor once typing pauses this long
+const NODE_EDIT_DELAY_MS = 500;
+
+// Members per cluster shown to the AI when naming clusters
+const CLUSTER_PROMPT_MEMBERS = 8;
+
+// Shorter queries carry too little meaning to embed
+const SEMANTIC_SEARCH_MIN_LENGTH = 3;
+const SEARCH_RESULT_LIMIT = 10;
 
 // Helper: Clean code for pure logic embedding
 function cleanCodeForEmbedding(rawCode: string): string {
@@ -31,45 +39,70 @@ function cleanCodeForEmbedding(rawCode: string): string {
     return cleaned;
 }
 
+// Helper: Functions and methods are the nodes that get embedded
+function isCallableNode(node: NodeData): boolean {
+    return node.type === NodeType.FUNCTION || node.type === NodeType.METHOD;
+}
+
 /**
- * Replaces the body of a specific function in a full file string.
+ * Replaces the lines of a specific function (1-based, inclusive range) in a full file string.
  */
-function replaceFunctionInCode(fileContent: string, funcName: string, newCode: string): string {
+function replaceFunctionInCode(fileContent: string, startLine: number, endLine: number, newCode: string): string {
     const lines = fileContent.split('\n');
-    const functionRegex = new RegExp(`^def\\s+${funcName}\\s*\\(`);
-
-    let startLine = -1;
-    let endLine = -1;
-
-    for (let i = 0; i < lines.length; i++) {
-        if (functionRegex.test(lines[i])) {
-            startLine = i;
-            let j = i + 1;
-            while (j < lines.length) {
-                const line = lines[j];
-                if (line.trim() !== '' && !line.startsWith(' ') && !line.startsWith('\t') && !line.startsWith('#') && !line.startsWith('@')) {
-                    break;
-                }
-                j++;
-            }
-            endLine = j;
-            break;
-        }
-    }
+    if (startLine < 1 || startLine > lines.length) return fileContent;
+
+    const before = lines.slice(0, startLine - 1);
+    const after = lines.slice(endLine);
+    return [...before, newCode, ...after].join('\n');
+}
 
-    if (startLine !== -1) {
-        const before = lines.slice(0, startLine);
-        const after = lines.slice(endLine);
-        return [...before, newCode, ...after].join('\n');
+/**
+ * The innermost node of a file containing the line (1-based), falling back to the file's own node.
+ */
+function findNodeAtLine(nodes: NodeData[], filePath: string, line: number): NodeData | undefined {
+    const inFile = nodes.filter(n => n.filePath === filePath);
+    const containing = inFile
+        .filter(n => n.startLine !== undefined && n.endLine !== undefined && n.startLine <= line && line <= n.endLine)
+        .sort((a, b) => (a.endLine! - a.startLine!) - (b.endLine! - b.startLine!));
+    return containing[0] ?? inFile.find(n => n.type === NodeType.MODULE || n.type === NodeType.FILE);
+}
+
+/**
+ * Appends streamed process output, continuing the previous line when it had no newline yet.
+ */
+function appendStreamOutput(lines: ConsoleLine[], kind: 'stdout' | 'stderr', text: string): ConsoleLine[] {
+    const next = [...lines];
+    const parts = text.split('\n');
+    const last = next[next.length - 1];
+    if (last && last.kind === kind && last.isPartial) {
+        next.pop();
+        parts[0] = last.text + parts[0];
     }
 
-    return fileContent;
+    const trailing = parts.pop()!; // Empty when the text ends with a newline
+    parts.forEach(part => next.push({ kind, text: part }));
+    if (trailing) next.push({ kind, text: trailing, isPartial: true });
+    return next;
+}
+
+function describeExit(exit: vscodeApi.PythonExit): ConsoleLine {
+    if (exit.error) return { kind: 'error', text: `Error: ${exit.error}` };
+
+    const duration = `${((exit.durationMs ?? 0) / 1000).toFixed(2)}s`;
+    if (exit.cancelled) return { kind: 'error', text: `■ Cancelled after ${duration}` };
+    if (exit.timedOut) return { kind: 'error', text: `■ Timed out after ${duration}` };
+    if (exit.exitCode === 0) return { kind: 'exit', text: `✓ Exited with code 0 in ${duration}` };
+
+    const status = exit.exitCode !== null && exit.exitCode !== undefined ? `code ${exit.exitCode}` : `signal ${exit.signal}`;
+    return { kind: 'error', text: `✗ Exited with ${status} in ${duration}` };
 }
 
 const App: React.FC = () => {
     const [isSidebarOpen, setIsSidebarOpen] = useState(true);
     const [isRefactorPanelOpen, setIsRefactorPanelOpen] = useState(false);
     const [isLoading, setIsLoading] = useState(true);
+    const [truncatedFiles, setTruncatedFiles] = useState<vscodeApi.TruncatedLanguage[]>([]);
+    const [loadProgress, setLoadProgress] = useState<{ loaded: number; total: number } | null>(null);
 
     // Use empty initial state when in VSCode, fallback to demo data otherwise
     const isVSCode = vscodeApi.isVSCodeEnv();
@@ -80,19 +113,62 @@ const App: React.FC = () => {
     const [graphData, setGraphData] = useState<GraphData>(() =>
         isVSCode ? { nodes: [], links: [] } : generateGraphFromFiles(INITIAL_FILES)
     );
+    // Parsed nodes of each file, reused until the file or its analysis changes
+    const graphFragments = useRef<GraphFragmentCache>(new Map());
+    // The files the graph was last generated from; the graph lags fileMap while analysis runs
+    const [graphFileMap, setGraphFileMap] = useState<FileMap | null>(null);
+    // Files renamed by the last change on disk (old path to new), so their nodes stay where they were
+    const [renamedFiles, setRenamedFiles] = useState<Map<string, string>>(new Map());
     const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+    // Follow mode (tektite.followEditor): the node at the editor cursor is selected as it moves
+    const [followEditor, setFollowEditor] = useState(false);
+    const [followedNodeId, setFollowedNodeId] = useState<string | null>(null);
+    // Editor location to select once its node is in the graph ("Show in Tektite Graph")
+    const [pendingLocation, setPendingLocation] = useState<{ path: string; line: number } | null>(null);
+
+    // Sidebar folder open/closed state by folder id, persisted with the webview state
+    const [folderState, setFolderState] = useState<Record<string, boolean>>(
+        () => vscodeApi.getState<{ folderState?: Record<string, boolean> }>()?.folderState ?? {}
+    );
+
+    // Each file as last loaded from or saved to disk; files whose content differs are unsaved
+    const [savedFiles, setSavedFiles] = useState<Record<string, { content: string; mtime?: number }>>({});
+    // AST analysis from the extension host, paired with the sources it was computed from
+    const [pythonAnalysis, setPythonAnalysis] = useState<{ sources: FileMap; modules: PythonAnalysis }>({ sources: {}, modules: {} });
+    const [isAnalyzerAvailable, setIsAnalyzerAvailable] = useState(isVSCode);
 
+    // Folder or entry point this panel is scoped to; each panel keeps its own layout and filters
+    const [scope, setScope] = useState<vscodeApi.PanelScope | null>(null);
     const [viewMode, setViewMode] = useState<ViewMode>('graph');
-    const [graphLayout, setGraphLayout] = useState<GraphLayout>('connection');
-    const [edgeFilters, setEdgeFilters] = useState<EdgeFilters>({ showStructure: true, showSemantic: false });
+    const [graphLayout, setGraphLayout] = useState<GraphLayout>(
+        () => vscodeApi.getState<{ graphLayout?: GraphLayout }>()?.graphLayout ?? 'connection'
+    );
+    const [edgeFilters, setEdgeFilters] = useState<EdgeFilters>(
+        () => vscodeApi.getState<{ edgeFilters?: EdgeFilters }>()?.edgeFilters ?? { showStructure: true, showSemantic: false }
+    );
 
-    // Python is always "ready" in VSCode (uses terminal)
+    // Runs go to a Python child process of the extension host, so they can start right away in VS Code
     const [isPythonReady, setIsPythonReady] = useState(isVSCode);
-    const [outputLog, setOutputLog] = useState<string[]>([]);
+    const [outputLog, setOutputLog] = useState<ConsoleLine[]>([]);
+    const [activeRunId, setActiveRunId] = useState<string | null>(null);
+    const [interpreter, setInterpreter] = useState<vscodeApi.ActiveInterpreter | null>(null);
 
     const [nodeSearchQuery, setNodeSearchQuery] = useState('');
-    const [isCalculatingEmbeddings, setIsCalculatingEmbeddings] = useState(false);
+    const [searchMode, setSearchMode] = useState<SearchMode>('text');
+    // Embedding of the semantic search query; nodes are ranked against it as they change
+    const [queryEmbedding, setQueryEmbedding] = useState<{ embedding: number[]; model?: string } | null>(null);
+    const [isSemanticSearching, setIsSemanticSearching] = useState(false);
+    const [embeddingProgress, setEmbeddingProgress] = useState<{ batchId: string; done: number; failed: number; total: number } | null>(null);
+    // Bumped when an embedding batch finishes, to rebuild the SEMANTIC edges
+    const [embeddingsVersion, setEmbeddingsVersion] = useState(0);
+    // SEMANTIC edge threshold picked with the toolbar slider; null uses the embedding model's default
+    const [similarityThreshold, setSimilarityThreshold] = useState<number | null>(
+        () => vscodeApi.getState<{ similarityThreshold?: number | null }>()?.similarityThreshold ?? null
+    );
     const [hasInitialEmbedding, setHasInitialEmbedding] = useState(false);
+    // AI-generated cluster names, by cluster membership (see clusterSignature)
+    const [clusterLabels, setClusterLabels] = useState<Record<string, string>>({});
+    const [collapsedClusterIds, setCollapsedClusterIds] = useState<string[]>([]);
 
     // Load files from VSCode workspace on mount
     useEffect(() => {
@@ -101,29 +177,41 @@ const App: React.FC = () => {
             return;
         }
 
+        // File contents stream in after the tree; the graph grows with each batch
+        const cleanupBatches = vscodeApi.onWorkspaceFilesBatch(batch => {
+            setFileMap(prev => ({ ...prev, ...batch.files }));
+            setSavedFiles(prev => {
+                const next = { ...prev };
+                Object.entries(batch.files).forEach(([filePath, content]) => {
+                    next[filePath] = { content, mtime: batch.mtimes?.[filePath] };
+                });
+                return next;
+            });
+
+            const analyzedSources: FileMap = {};
+            Object.keys(batch.analysis).forEach(filePath => { analyzedSources[filePath] = batch.files[filePath]; });
+            setPythonAnalysis(prev => ({
+                sources: { ...prev.sources, ...analyzedSources },
+                modules: { ...prev.modules, ...batch.analysis }
+            }));
+
+            if (batch.analyzerError) {
+                console.warn('Python analysis unavailable, falling back to regex parser:', batch.analyzerError);
+                setIsAnalyzerAvailable(false);
+            }
+            setLoadProgress(batch.loaded < batch.total ? { loaded: batch.loaded, total: batch.total } : null);
+        });
+
         const loadWorkspaceFiles = async () => {
             try {
                 const result = await vscodeApi.getWorkspaceFiles();
+                setScope(result.scope);
 
-                if (result.fileMap && Object.keys(result.fileMap).length > 0) {
-                    setFileMap(result.fileMap);
-
-                    // Build tree structure
-                    const tree: FileSystemItem[] = [{
-                        id: 'root',
-                        name: 'Workspace',
-                        type: 'folder',
-                        isOpen: true,
-                        children: result.fileTree.map(f => ({
-                            id: f.id,
-                            name: f.name,
-                            type: 'file' as const,
-                            language: f.language as any
-                        }))
-                    }];
-
-                    setSkeletonTree(tree);
-                    setRenderedTree(tree);
+                if (result.total > 0) {
+                    setLoadProgress({ loaded: 0, total: result.total });
+                    setTruncatedFiles(result.truncated || []);
+                    setSkeletonTree(result.fileTree);
+                    setRenderedTree(result.fileTree);
                 } else {
                     // No files found, use demo data
                     setFileMap(INITIAL_FILES);
@@ -144,14 +232,124 @@ const App: React.FC = () => {
         loadWorkspaceFiles();
 
         // Listen for file changes from VSCode
-        const cleanup = vscodeApi.onFileChange((path, content) => {
-            const filename = path.split('/').pop() || path;
-            setFileMap(prev => ({ ...prev, [filename]: content }));
+        const cleanupChanges = vscodeApi.onFileChange((path, content) => {
+            // Edits made here and not yet applied win; the editor catches up when they are
+            if (pendingEdits.current.has(path)) return;
+            // Paths arrive workspace-relative, matching the fileMap keys
+            setFileMap(prev => ({ ...prev, [path]: content }));
+        });
+
+        return () => {
+            cleanupBatches();
+            cleanupChanges();
+        };
+    }, [isVSCode]);
+
+    // Files created, deleted or renamed on disk. A rename keeps the file's nodes, with their
+    // position and embedding, under the new path.
+    useEffect(() => {
+        return vscodeApi.onWorkspaceFilesChanged(changes => {
+            const renames = new Map(changes.renamed.map(r => [r.from, r.to]));
+            // Moves made outside VS Code arrive as a delete and a create of the same content
+            const created = Object.keys(changes.files).filter(filePath => fileMap[filePath] === undefined && ![...renames.values()].includes(filePath));
+            const removed = changes.removed.filter(from => {
+                const matches = created.filter(to => changes.files[to] === fileMap[from]);
+                if (matches.length !== 1) return true;
+                renames.set(from, matches[0]);
+                return false;
+            });
+
+            const moveKeys = <T,>(record: Record<string, T>): Record<string, T> => {
+                const next = { ...record };
+                renames.forEach((to, from) => {
+                    if (next[from] !== undefined) next[to] = next[from];
+                    delete next[from];
+                });
+                removed.forEach(filePath => { delete next[filePath]; });
+                return next;
+            };
+
+            renames.forEach((to, from) => {
+                const pending = pendingEdits.current.get(from);
+                if (!pending) return;
+                pendingEdits.current.delete(from);
+                pendingEdits.current.set(to, { ...pending, path: to });
+            });
+            removed.forEach(filePath => pendingEdits.current.delete(filePath));
+
+            // The analysis of a moved module depends on its path; it is computed again. Imports of
+            // other modules may now resolve differently, so those are sent again too (the host's
+            // cache answers for the ones that resolve the same)
+            const isModuleChange = [...renames.keys(), ...renames.values(), ...removed, ...created].some(p => p.endsWith('.py'));
+            setPythonAnalysis(prev => {
+                const sources = isModuleChange ? {} : { ...prev.sources };
+                const modules = { ...prev.modules };
+                [...renames.keys(), ...removed].forEach(filePath => {
+                    delete sources[filePath];
+                    delete modules[filePath];
+                });
+                return { sources, modules };
+            });
+            setGraphData(prev => renameGraphFiles(prev, renames));
+            setRenamedFiles(renames);
+            setSelectedNodeId(id => id && renamedNodeId(id, renames));
+            setFollowedNodeId(id => id && renamedNodeId(id, renames));
+
+            setFileMap(prev => {
+                const next = moveKeys(prev);
+                Object.entries(changes.files).forEach(([filePath, content]) => {
+                    if (!pendingEdits.current.has(filePath)) next[filePath] = content;
+                });
+                return next;
+            });
+            setSavedFiles(prev => {
+                const next = moveKeys(prev);
+                Object.entries(changes.files).forEach(([filePath, content]) => {
+                    next[filePath] = { content, mtime: changes.mtimes[filePath] };
+                });
+                return next;
+            });
+            setSkeletonTree(changes.fileTree);
+            setTruncatedFiles(changes.truncated);
         });
+    }, [fileMap]);
+
+    // Track the interpreter used for running and analysis
+    useEffect(() => {
+        if (!isVSCode) return;
 
-        return cleanup;
+        vscodeApi.getInterpreter()
+            .then(setInterpreter)
+            .catch(err => console.error('Failed to get Python interpreter:', err));
+
+        return vscodeApi.onInterpreterChange(next => {
+            setInterpreter(next);
+            // Re-analyze everything with the new interpreter (stdlib detection depends on it)
+            setPythonAnalysis(prev => ({ sources: {}, modules: prev.modules }));
+            setIsAnalyzerAvailable(true);
+        });
     }, [isVSCode]);
 
+    // Stream Python run output into the console
+    useEffect(() => {
+        const cleanupOutput = vscodeApi.onPythonOutput((_runId, stream, text) => {
+            setOutputLog(prev => appendStreamOutput(prev, stream, text));
+        });
+        const cleanupExit = vscodeApi.onPythonExit(exit => {
+            setOutputLog(prev => [
+                ...prev,
+                ...(exit.returnValue !== undefined ? [{ kind: 'result' as const, text: `Return value: ${exit.returnValue}` }] : []),
+                describeExit(exit)
+            ]);
+            setActiveRunId(current => current === exit.runId ? null : current);
+        });
+
+        return () => {
+            cleanupOutput();
+            cleanupExit();
+        };
+    }, []);
+
     // Keyboard Shortcut for Sidebar Toggle (Cmd+B)
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
@@ -179,63 +377,110 @@ const App: React.FC = () => {
         setEdgeFilters(prev => ({ ...prev, [filter]: !prev[filter] }));
     };
 
+    // Analyze Python files with the interpreter whenever they change. Files streamed in arrive
+    // already analyzed; until the last batch, imports would resolve against part of the workspace.
+    useEffect(() => {
+        if (!isAnalyzerAvailable || loadProgress !== null) return;
+
+        const modulePaths = Object.keys(fileMap).filter(filePath => filePath.endsWith('.py'));
+        const staleFiles: FileMap = {};
+        modulePaths.forEach(filePath => {
+            if (pythonAnalysis.sources[filePath] !== fileMap[filePath]) staleFiles[filePath] = fileMap[filePath];
+        });
+        if (Object.keys(staleFiles).length === 0) return;
+
+        let cancelled = false;
+        vscodeApi.analyzePython(staleFiles, modulePaths)
+            .then(result => {
+                if (cancelled) return;
+                setPythonAnalysis(prev => ({
+                    sources: { ...prev.sources, ...staleFiles },
+                    modules: { ...prev.modules, ...result.modules }
+                }));
+            })
+            .catch(error => {
+                console.warn('Python analysis unavailable, falling back to regex parser:', error);
+                if (!cancelled) setIsAnalyzerAvailable(false);
+            });
+
+        return () => { cancelled = true; };
+    }, [fileMap, isAnalyzerAvailable, loadProgress]);
+
     // Generate Graph & Enrich Tree when files change
     useEffect(() => {
         if (Object.keys(fileMap).length === 0) return;
 
-        setGraphData(prevGraph => {
-            const newStructure = generateGraphFromFiles(fileMap);
+        // Only use analysis computed from the current sources; wait for it rather than flicker through the regex parser
+        const freshAnalysis: PythonAnalysis = {};
+        if (isAnalyzerAvailable) {
+            for (const [filePath, code] of Object.entries(fileMap)) {
+                if (!filePath.endsWith('.py')) continue;
+                if (pythonAnalysis.sources[filePath] !== code) return;
+                freshAnalysis[filePath] = pythonAnalysis.modules[filePath];
+            }
+        }
 
-            const mergedNodes = newStructure.nodes.map(newNode => {
-                const oldNode = prevGraph.nodes.find(old => old.id === newNode.id);
-                if (oldNode) {
-                    if (oldNode.code === newNode.code) {
-                        return { ...newNode, embedding: oldNode.embedding, isStale: oldNode.isStale };
-                    } else {
-                        return { ...newNode, embedding: oldNode.embedding, isStale: true };
-                    }
-                }
-                return { ...newNode, isStale: true };
-            });
+        // Only files whose source or analysis changed are parsed again; the diff keeps every
+        // unchanged node as it is, so the layout and embeddings stay put
+        const structure = generateGraphFromFiles(fileMap, freshAnalysis, graphFragments.current);
+        setGraphData(prevGraph => applyGraphDiff(prevGraph, diffGraphStructure(prevGraph, structure)));
+        setGraphFileMap(fileMap);
+
+    }, [fileMap, pythonAnalysis, isAnalyzerAvailable]);
 
-            const existingSemanticEdges = prevGraph.links.filter(l => l.type === EdgeType.SEMANTIC);
-            const validSemanticEdges = existingSemanticEdges.filter(l =>
-                mergedNodes.find(n => n.id === l.source) && mergedNodes.find(n => n.id === l.target)
-            );
+    useEffect(() => {
+        vscodeApi.setState({ ...(vscodeApi.getState<object>() ?? {}), folderState });
+    }, [folderState]);
+
+    useEffect(() => {
+        vscodeApi.setState({ ...(vscodeApi.getState<object>() ?? {}), graphLayout, edgeFilters });
+    }, [graphLayout, edgeFilters]);
+
+    const handleFolderToggle = (folderId: string, isOpen: boolean) => {
+        setFolderState(prev => ({ ...prev, [folderId]: isOpen }));
+    };
+
+    // Sync Tree with Graph (folders > files > classes > methods, following parentId)
+    useEffect(() => {
+        const childrenByParent = new Map<string, NodeData[]>();
+        graphData.nodes.forEach(n => {
+            if (!n.parentId) return;
+            if (!childrenByParent.has(n.parentId)) childrenByParent.set(n.parentId, []);
+            childrenByParent.get(n.parentId)!.push(n);
+        });
 
+        const toTreeItem = (n: NodeData): FileSystemItem => {
+            const children = (childrenByParent.get(n.id) || []).map(toTreeItem);
             return {
-                nodes: mergedNodes,
-                links: [...newStructure.links, ...validSemanticEdges]
+                id: n.id,
+                name: n.label.split('.').pop() || n.label,
+                type: n.type === NodeType.CLASS ? 'class' : n.type === NodeType.METHOD ? 'method' : 'function',
+                language: 'python',
+                ...(children.length > 0 ? { children } : {})
             };
-        });
+        };
 
-    }, [fileMap]);
+        const functionCounts = new Map<string, number>(); // file node id -> functions and methods
+        graphData.nodes.forEach(n => {
+            if (!isCallableNode(n) || !n.filePath) return;
+            const fileId = `file-${n.filePath}`;
+            functionCounts.set(fileId, (functionCounts.get(fileId) || 0) + 1);
+        });
 
-    // Sync Tree with Graph
-    useEffect(() => {
         const enrichTree = (items: FileSystemItem[]): FileSystemItem[] => {
             return items.map(item => {
                 const newItem = { ...item };
-                if (newItem.type === 'folder' && newItem.children) {
-                    newItem.children = enrichTree(newItem.children);
+                if (newItem.type === 'folder') {
+                    newItem.children = enrichTree(newItem.children || []);
+                    newItem.isOpen = folderState[newItem.id] ?? newItem.isOpen;
+                    newItem.functionCount = newItem.children.reduce((sum, child) =>
+                        sum + (child.type === 'folder' ? child.functionCount || 0 : functionCounts.get(child.id) || 0), 0);
                 }
                 if (newItem.type === 'file') {
-                    const functionsInFile = graphData.links
-                        .filter(l => l.type === EdgeType.IMPORTS && l.target === newItem.id)
-                        .map(l => {
-                            const funcNode = graphData.nodes.find(n => n.id === l.source);
-                            return funcNode;
-                        })
-                        .filter((n): n is NodeData => !!n)
-                        .map(n => ({
-                            id: n.id,
-                            name: n.label,
-                            type: 'function' as const,
-                            language: 'python' as const
-                        } as any));
-
-                    if (functionsInFile.length > 0) {
-                        newItem.children = functionsInFile;
+                    const symbolsInFile = (childrenByParent.get(newItem.id) || []).map(toTreeItem);
+
+                    if (symbolsInFile.length > 0) {
+                        newItem.children = symbolsInFile;
                         newItem.isOpen = true;
                     }
                 }
@@ -243,92 +488,276 @@ const App: React.FC = () => {
             });
         };
         setRenderedTree(enrichTree(skeletonTree));
-    }, [graphData.nodes.length, graphData.links.length, skeletonTree]);
+    }, [graphData.nodes, skeletonTree, folderState]);
 
-    // Semantic Calculation using VSCode extension host
+    // Semantic Calculation using VSCode extension host (batched, results stream in through onEmbeddingProgress)
     const handleRecalculateSemanticGraph = async () => {
         const nodesToUpdate = graphData.nodes.filter(
-            n => n.type === NodeType.FUNCTION && n.language === 'python' && n.code && (!n.embedding || n.isStale)
+            n => isCallableNode(n) && n.language === 'python' && n.code && (!n.embedding || n.isStale)
         );
 
-        if (nodesToUpdate.length === 0) return;
+        if (!isVSCode || nodesToUpdate.length === 0 || embeddingProgress) return;
 
-        setIsCalculatingEmbeddings(true);
-        let updated = false;
-        const newNodes = [...graphData.nodes];
+        const batchId = `embed_${Date.now()}`;
+        const items = nodesToUpdate.map(node => ({
+            id: node.id,
+            content: cleanCodeForEmbedding(node.code || '') || node.code || node.label
+        }));
+        setEmbeddingProgress({ batchId, done: 0, failed: 0, total: items.length });
 
         try {
-            // Request embeddings from extension host (secure API key handling)
-            await Promise.all(nodesToUpdate.map(async (node) => {
-                try {
-                    const pureLogicCode = cleanCodeForEmbedding(node.code || '');
-                    const contentToEmbed = pureLogicCode || node.code || node.label;
-
-                    const result = await vscodeApi.callEmbedding(contentToEmbed);
-                    const embedding = result.embedding;
-
-                    if (embedding) {
-                        const idx = newNodes.findIndex(n => n.id === node.id);
-                        if (idx !== -1) {
-                            newNodes[idx] = { ...newNodes[idx], embedding, isStale: false };
-                            updated = true;
-                        }
-                    }
-                } catch (err) {
-                    console.warn(`Failed to embed ${node.label}`, err);
-                }
-            }));
+            await vscodeApi.callEmbeddingBatch(batchId, items);
+        } catch (err) {
+            console.warn('Failed to start embedding', err);
+            setEmbeddingProgress(null);
+        }
+    };
 
-            if (updated) {
-                const structuralLinks = graphData.links.filter(l => l.type !== EdgeType.SEMANTIC);
-                const semanticLinks: any[] = [];
-                const funcNodes = newNodes.filter(n => n.embedding);
-
-                for (let i = 0; i < funcNodes.length; i++) {
-                    for (let j = i + 1; j < funcNodes.length; j++) {
-                        const score = cosineSimilarity(funcNodes[i].embedding!, funcNodes[j].embedding!);
-                        if (score > 0.75) {
-                            semanticLinks.push({
-                                source: funcNodes[i].id,
-                                target: funcNodes[j].id,
-                                type: EdgeType.SEMANTIC,
-                                weight: score
-                            });
-                        }
-                    }
-                }
+    const handleCancelEmbeddings = async () => {
+        if (!embeddingProgress) return;
+        try {
+            await vscodeApi.cancelEmbeddingBatch(embeddingProgress.batchId);
+        } catch (err) {
+            console.warn('Failed to cancel embedding', err);
+        }
+    };
 
+    // Apply embeddings as batches complete; SEMANTIC edges are rebuilt once the batch is finished
+    useEffect(() => {
+        return vscodeApi.onEmbeddingProgress(progress => {
+            if (Object.keys(progress.results).length > 0) {
                 setGraphData(prev => ({
-                    nodes: newNodes,
-                    links: [...structuralLinks, ...semanticLinks]
+                    ...prev,
+                    nodes: prev.nodes.map(n => progress.results[n.id]
+                        ? { ...n, embedding: progress.results[n.id], embeddingModel: progress.model, isStale: false }
+                        : n
+                    )
                 }));
             }
 
-        } finally {
-            setIsCalculatingEmbeddings(false);
-        }
-    };
+            if (progress.finished) {
+                if (progress.error) console.warn('Embedding failed:', progress.error);
+                setEmbeddingProgress(null);
+                setEmbeddingsVersion(v => v + 1);
+            } else {
+                setEmbeddingProgress(current => current?.batchId === progress.batchId
+                    ? { ...current, done: progress.done, failed: progress.failed, total: progress.total }
+                    : current
+                );
+            }
+        });
+    }, []);
+
+    // Rebuild SEMANTIC edges when embeddings were updated or the threshold moved (debounced for the slider)
+    useEffect(() => {
+        vscodeApi.setState({ ...(vscodeApi.getState<object>() ?? {}), similarityThreshold });
+
+        const timer = setTimeout(() => {
+            setGraphData(prev => ({
+                nodes: prev.nodes,
+                links: [
+                    ...prev.links.filter(l => l.type !== EdgeType.SEMANTIC),
+                    ...computeSemanticLinks(prev.nodes, similarityThreshold)
+                ]
+            }));
+        }, 150);
+        return () => clearTimeout(timer);
+    }, [similarityThreshold, embeddingsVersion]);
 
-    // Auto-Run Embeddings on Initial Load
+    // Auto-Run Embeddings on Initial Load, once every batch has streamed in and is in the graph
     useEffect(() => {
-        if (!hasInitialEmbedding && graphData.nodes.length > 0) {
+        const isGraphComplete = !isLoading && loadProgress === null && graphFileMap === fileMap;
+        if (!hasInitialEmbedding && isGraphComplete && graphData.nodes.length > 0) {
             handleRecalculateSemanticGraph();
             setHasInitialEmbedding(true);
         }
-    }, [hasInitialEmbedding, graphData.nodes.length]);
+    }, [hasInitialEmbedding, isLoading, loadProgress, graphFileMap, fileMap, graphData.nodes.length]);
+
+    // A different embedding source or model, or a cleared cache: recompute every embedding
+    useEffect(() => {
+        return vscodeApi.onEmbeddingsInvalidated(() => {
+            setGraphData(prev => ({
+                ...prev,
+                nodes: prev.nodes.map(n => n.embedding ? { ...n, isStale: true } : n)
+            }));
+            setHasInitialEmbedding(false);
+        });
+    }, []);
+
+    // An entry-point panel only shows the code reachable from its function
+    const scopedGraph = useMemo(() => scopeGraph(graphData, scope), [graphData, scope]);
+
+    const semanticClusters = useMemo(() => findSemanticClusters(scopedGraph.links), [scopedGraph.links]);
+    const clusters = useMemo(() => {
+        const labels = new Map(graphData.nodes.map(n => [n.id, n.label]));
+        return semanticClusters.map(cluster => ({
+            ...cluster,
+            label: clusterLabels[clusterSignature(cluster)]
+                ?? describeCluster(cluster.nodeIds.map(id => labels.get(id) ?? id))
+        }));
+    }, [semanticClusters, graphData.nodes, clusterLabels]);
+
+    // Name new clusters with the AI provider once the SEMANTIC edges settle. Without an API
+    // key the word-frequency labels stay, rather than warning on every edge change.
+    useEffect(() => {
+        if (!isVSCode) return;
+        const unlabelled = semanticClusters.filter(c => !clusterLabels[clusterSignature(c)]);
+        if (unlabelled.length === 0) return;
+
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                if (!(await vscodeApi.checkApiKey()).hasApiKey || cancelled) return;
+
+                const nodesById = new Map(graphData.nodes.map(n => [n.id, n]));
+                const description = unlabelled.map((cluster, i) => {
+                    const members = cluster.nodeIds.slice(0, CLUSTER_PROMPT_MEMBERS).map(id => {
+                        const node = nodesById.get(id);
+                        return `  - ${node?.label ?? id}: ${(node?.code ?? '').split('\n').slice(0, 6).join(' ').slice(0, 200)}`;
+                    });
+                    return `Cluster ${i}:\n${members.join('\n')}`;
+                }).join('\n\n');
+
+                const prompt = `Each cluster below groups Python functions with similar code.
+                Name every cluster with a short lowercase label of 2-4 words describing what its functions have in common, such as "recursive math" or "ascii rendering".
+                Return a JSON object with:
+                - clusters: one entry per cluster, with index (the cluster number) and label.
+
+                ${description}`;
+
+                const schema = {
+                    type: "OBJECT",
+                    properties: {
+                        clusters: {
+                            type: "ARRAY",
+                            items: {
+                                type: "OBJECT",
+                                properties: {
+                                    index: { type: "INTEGER" },
+                                    label: { type: "STRING" }
+                                }
+                            }
+                        }
+                    }
+                };
+
+                const response = await vscodeApi.callAI(prompt, schema);
+                if (cancelled || !Array.isArray(response.result?.clusters)) return;
+
+                const labels: Record<string, string> = {};
+                response.result.clusters.forEach((entry: { index: number; label: string }) => {
+                    const cluster = unlabelled[entry.index];
+                    if (cluster && entry.label) labels[clusterSignature(cluster)] = entry.label;
+                });
+                setClusterLabels(prev => ({ ...prev, ...labels }));
+            } catch (err) {
+                console.warn('Failed to label clusters', err);
+            }
+        }, 1000);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [semanticClusters]);
+
+    const displayedGraph = useMemo(
+        () => collapseClusters(scopedGraph, clusters, collapsedClusterIds),
+        [scopedGraph, clusters, collapsedClusterIds]
+    );
+
+    const handleToggleCluster = (clusterId: string) => {
+        setCollapsedClusterIds(prev => prev.includes(clusterId)
+            ? prev.filter(id => id !== clusterId)
+            : [...prev, clusterId]
+        );
+    };
+
+    // Semantic search: embed the query once typing pauses
+    useEffect(() => {
+        const query = nodeSearchQuery.trim();
+        if (searchMode !== 'semantic' || query.length < SEMANTIC_SEARCH_MIN_LENGTH) {
+            setQueryEmbedding(null);
+            setIsSemanticSearching(false);
+            return;
+        }
+
+        let cancelled = false;
+        setIsSemanticSearching(true);
+        const timer = setTimeout(async () => {
+            try {
+                const result = await vscodeApi.callEmbedding(query);
+                if (!cancelled) setQueryEmbedding(result.embedding ? { embedding: result.embedding, model: result.model } : null);
+            } catch (err) {
+                console.warn('Semantic search failed', err);
+                if (!cancelled) setQueryEmbedding(null);
+            } finally {
+                if (!cancelled) setIsSemanticSearching(false);
+            }
+        }, 400);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [nodeSearchQuery, searchMode]);
 
     const handleNodeSelect = (node: NodeData | null) => {
         setSelectedNodeId(node ? node.id : null);
+        // Nodes picked from search or the sidebar may be hidden in a collapsed cluster
+        const hiddenIn = node && clusters.find(c => collapsedClusterIds.includes(c.id) && c.nodeIds.includes(node.id));
+        if (hiddenIn) handleToggleCluster(hiddenIn.id);
         if (node && !isRefactorPanelOpen && node.complexity && node.complexity > 5) {
             setIsRefactorPanelOpen(true);
         }
     };
 
+    const handleRevealInEditor = (node: NodeData) => {
+        if (!isVSCode || !node.filePath) return;
+        vscodeApi.revealInEditor(node.filePath, node.startLine, node.endLine)
+            .catch(err => console.error('Failed to reveal in editor:', err));
+    };
+
+    const handleRevealItem = (item: FileSystemItem) => {
+        const node = graphData.nodes.find(n => n.id === item.id);
+        if (node) {
+            handleRevealInEditor(node);
+        } else if (isVSCode && item.path) {
+            vscodeApi.revealInEditor(item.path)
+                .catch(err => console.error('Failed to reveal in editor:', err));
+        }
+    };
+
+    // "Show in Tektite Graph" from the editor, selected once the file's nodes are in the graph
+    useEffect(() => vscodeApi.onShowInGraph(setPendingLocation), []);
+    useEffect(() => {
+        if (!pendingLocation) return;
+        const node = findNodeAtLine(graphData.nodes, pendingLocation.path, pendingLocation.line);
+        if (!node) return;
+        setPendingLocation(null);
+        setViewMode('graph');
+        handleNodeSelect(node);
+    }, [pendingLocation, graphData.nodes]);
+
+    useEffect(() => vscodeApi.onFollowEditorChanged(enabled => {
+        setFollowEditor(enabled);
+        if (!enabled) setFollowedNodeId(null);
+    }), []);
+
+    useEffect(() => {
+        return vscodeApi.onEditorCursor(({ path, line }) => {
+            const node = findNodeAtLine(graphData.nodes, path, line);
+            if (!node) return;
+            setFollowedNodeId(node.id);
+            setSelectedNodeId(node.id);
+            const hiddenIn = clusters.find(c => collapsedClusterIds.includes(c.id) && c.nodeIds.includes(node.id));
+            if (hiddenIn) handleToggleCluster(hiddenIn.id);
+        });
+    }, [graphData.nodes, clusters, collapsedClusterIds]);
+
     const handleFileSelect = (fileId: string) => {
         let node = graphData.nodes.find(n => n.id === fileId);
         if (!node) {
-            const filename = fileId.replace('file-', '');
-            node = graphData.nodes.find(n => n.label === filename);
+            const filePath = fileId.replace('file-', '');
+            node = graphData.nodes.find(n => n.filePath === filePath && (n.type === NodeType.MODULE || n.type === NodeType.FILE));
         }
 
         if (node) {
@@ -336,43 +765,138 @@ const App: React.FC = () => {
         }
     };
 
-    const handleCodeChange = (newCode: string) => {
-        if (!selectedNodeId) return;
+    // Queued edits by file; sent to the extension host once typing pauses, or right away for refactors
+    const pendingEdits = useRef(new Map<string, vscodeApi.FileEdit>());
+    const pendingEditsTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+    const queueFileEdit = (filePath: string, original: string | undefined, content: string) => {
+        // Consecutive edits of a file are checked against the content before the first one
+        const pending = pendingEdits.current.get(filePath);
+        pendingEdits.current.set(filePath, { path: filePath, original: pending ? pending.original : original, content });
+    };
 
+    const flushFileEdits = async (label: string, isRefactoring: boolean) => {
+        clearTimeout(pendingEditsTimer.current);
+        const edits = [...pendingEdits.current.values()];
+        pendingEdits.current.clear();
+        if (!isVSCode || edits.length === 0) return;
+
+        try {
+            const result = await vscodeApi.applyEdits(edits, label, isRefactoring);
+            if (result.applied) return;
+
+            // Declined in the preview, or a document changed meanwhile: show what the editor has
+            setFileMap(prev => {
+                const next = { ...prev };
+                edits.forEach(edit => {
+                    if (edit.original === undefined) delete next[edit.path];
+                    else next[edit.path] = edit.original;
+                });
+                return { ...next, ...result.conflicts };
+            });
+        } catch (err) {
+            console.error('Failed to apply edits:', err);
+        }
+    };
+
+    /**
+     * Replaces the node's code and splices it into its file, queueing the edit for the editor.
+     */
+    const updateNodeCode = (nodeId: string, newCode: string) => {
+        // Keep the line range in step with the new code so consecutive edits splice the right lines
         setGraphData(prev => ({
             ...prev,
-            nodes: prev.nodes.map(n => n.id === selectedNodeId ? { ...n, code: newCode, isStale: true } : n)
+            nodes: prev.nodes.map(n => n.id === nodeId ? {
+                ...n,
+                code: newCode,
+                isStale: true,
+                endLine: n.startLine !== undefined ? n.startLine + newCode.split('\n').length - 1 : n.endLine
+            } : n)
         }));
 
+        const node = graphData.nodes.find(n => n.id === nodeId);
+        if (!node || !node.filePath) return;
+        const filePath = node.filePath;
+
+        let content = fileMap[filePath];
+        if (node.type === NodeType.MODULE || node.type === NodeType.FILE) {
+            content = newCode;
+        } else if (node.startLine !== undefined && node.endLine !== undefined) {
+            content = replaceFunctionInCode(fileMap[filePath], node.startLine, node.endLine, newCode);
+        }
+
+        if (content !== fileMap[filePath]) {
+            setFileMap(prev => ({ ...prev, [filePath]: content }));
+            queueFileEdit(filePath, fileMap[filePath], content);
+        }
+    };
+
+    const handleCodeChange = (newCode: string) => {
+        if (!selectedNodeId) return;
+        updateNodeCode(selectedNodeId, newCode);
+
+        clearTimeout(pendingEditsTimer.current);
+        pendingEditsTimer.current = setTimeout(() => flushFileEdits('Edit in Tektite graph', false), NODE_EDIT_DELAY_MS);
+    };
+
+    const handleApplyRefactor = (newCode: string) => {
         const node = graphData.nodes.find(n => n.id === selectedNodeId);
         if (!node) return;
+        updateNodeCode(node.id, newCode);
+        flushFileEdits(`Refactor ${node.label}`, true);
+    };
 
-        if (node.type === NodeType.MODULE || node.type === NodeType.FILE) {
-            const filename = node.label;
-            setFileMap(prev => ({ ...prev, [filename]: newCode }));
-        } else if (node.type === NodeType.FUNCTION) {
-            const importLink = graphData.links.find(l =>
-                l.type === EdgeType.IMPORTS &&
-                (l.source && typeof l.source === 'object' ? (l.source as any).id === node.id : l.source === node.id)
-            );
-
-            if (importLink) {
-                const parentId = importLink.target && typeof importLink.target === 'object' ? (importLink.target as any).id : importLink.target;
-                const parentNode = graphData.nodes.find(n => n.id === parentId);
-
-                if (parentNode) {
-                    const filename = parentNode.label;
-                    const currentFileContent = fileMap[filename];
-                    const updatedFileContent = replaceFunctionInCode(currentFileContent, node.label, newCode);
-
-                    if (updatedFileContent !== currentFileContent) {
-                        setFileMap(prev => ({ ...prev, [filename]: updatedFileContent }));
-                    }
+    // Multi-file refactors (see DuplicateFinder); the graph is rebuilt from the new sources
+    const handleApplyFileEdits = (files: FileMap, label: string) => {
+        Object.entries(files).forEach(([filePath, content]) => queueFileEdit(filePath, fileMap[filePath], content));
+        setFileMap(prev => ({ ...prev, ...files }));
+        flushFileEdits(label, true);
+    };
+
+    const dirtyFiles = useMemo(
+        () => new Set(Object.keys(savedFiles).filter(filePath => fileMap[filePath] !== undefined && fileMap[filePath] !== savedFiles[filePath].content)),
+        [fileMap, savedFiles]
+    );
+
+    const handleSaveFiles = async (filePaths: string[]) => {
+        if (!isVSCode) return;
+        // The editor buffers get the graph's edits first, so saving them writes what the graph shows
+        await flushFileEdits('Edit in Tektite graph', false);
+
+        for (const filePath of filePaths) {
+            const content = fileMap[filePath];
+            try {
+                const result = await vscodeApi.saveFile(filePath, content, savedFiles[filePath]?.mtime);
+                if (result.success) {
+                    setSavedFiles(prev => ({ ...prev, [filePath]: { content, mtime: result.mtime } }));
+                } else if (result.diskContent !== undefined) {
+                    const diskContent = result.diskContent;
+                    setFileMap(prev => ({ ...prev, [filePath]: diskContent }));
+                    setSavedFiles(prev => ({ ...prev, [filePath]: { content: diskContent, mtime: result.mtime } }));
                 }
+            } catch (err) {
+                console.error(`Failed to save ${filePath}:`, err);
             }
         }
     };
 
+    // Saves from the editor (including those of files edited here) are the new baseline
+    useEffect(() => {
+        return vscodeApi.onFileSaved(({ path, content, mtime }) => {
+            setSavedFiles(prev => ({ ...prev, [path]: { content, mtime } }));
+        });
+    }, []);
+
+    // Tektite: Save File (Ctrl+S) saves the selected node's file, nothing without a selection;
+    // Save All Files every unsaved one
+    useEffect(() => {
+        return vscodeApi.onSaveRequested(all => {
+            const selectedFile = graphData.nodes.find(n => n.id === selectedNodeId)?.filePath;
+            const filePaths = all ? [...dirtyFiles] : selectedFile ? [selectedFile] : [];
+            handleSaveFiles(filePaths.filter(filePath => dirtyFiles.has(filePath)));
+        });
+    }, [dirtyFiles, selectedNodeId, graphData.nodes, fileMap, savedFiles]);
+
     const handleFilesUploaded = async (fileList: FileList) => {
         const newFiles: FileMap = { ...fileMap };
         const newTreeItems: FileSystemItem[] = [];
@@ -415,24 +939,76 @@ const App: React.FC = () => {
     // Run Python code via VSCode terminal
     const handleRunCode = async (code: string) => {
         if (!isRefactorPanelOpen) setIsRefactorPanelOpen(true);
-        setOutputLog(prev => [...prev, ">>> Running code..."]);
+        setOutputLog(prev => [...prev, { kind: 'info', text: '>>> Running code...' }]);
 
         try {
             if (isVSCode) {
-                const result = await vscodeApi.runPython(code);
-                setOutputLog(prev => [...prev, result.output]);
+                const runId = `run_${Date.now()}`;
+                setActiveRunId(runId);
+                await vscodeApi.runPython(code, runId);
+            } else {
+                setOutputLog(prev => [...prev, { kind: 'info', text: '⚠ Python execution is only available in VSCode extension mode.' }]);
+            }
+        } catch (err: any) {
+            setOutputLog(prev => [...prev, { kind: 'error', text: `Error: ${err.message}` }]);
+            setActiveRunId(null);
+        }
+    };
+
+    // Call a single function node inside its module
+    const handleRunFunction = async (node: NodeData, args: string) => {
+        if (!isRefactorPanelOpen) setIsRefactorPanelOpen(true);
+        setOutputLog(prev => [...prev, { kind: 'info', text: `>>> ${node.label}(${args})` }]);
+
+        try {
+            if (isVSCode && node.filePath) {
+                const runId = `run_${Date.now()}`;
+                const moduleName = pythonAnalysis.modules[node.filePath]?.moduleName ?? '';
+                setActiveRunId(runId);
+                await vscodeApi.runFunction(runId, node.filePath, moduleName, node.label, args);
             } else {
-                setOutputLog(prev => [...prev, "⚠ Python execution is only available in VSCode extension mode."]);
+                setOutputLog(prev => [...prev, { kind: 'info', text: '⚠ Python execution is only available in VSCode extension mode.' }]);
             }
         } catch (err: any) {
-            setOutputLog(prev => [...prev, `Error: ${err.message}`]);
+            setOutputLog(prev => [...prev, { kind: 'error', text: `Error: ${err.message}` }]);
+            setActiveRunId(null);
+        }
+    };
+
+    const handleCancelRun = async () => {
+        if (!activeRunId) return;
+        try {
+            await vscodeApi.cancelPython(activeRunId);
+        } catch (err: any) {
+            setOutputLog(prev => [...prev, { kind: 'error', text: `Error: ${err.message}` }]);
         }
     };
 
     const selectedNode = graphData.nodes.find(n => n.id === selectedNodeId) || null;
 
+    // Only embeddings of the query's model are comparable with it
+    const semanticMatches = useMemo(() => {
+        if (!queryEmbedding) return null;
+        const items = graphData.nodes
+            .filter(n => n.embedding && n.embeddingModel === queryEmbedding.model)
+            .map(n => ({ id: n.id, vector: n.embedding! }));
+        return rankBySimilarity(queryEmbedding.embedding, items, SEARCH_RESULT_LIMIT);
+    }, [queryEmbedding, graphData.nodes]);
+
+    const searchResults: SearchResult[] = searchMode === 'semantic'
+        ? (semanticMatches ?? []).flatMap(({ id, score }) => {
+            const node = graphData.nodes.find(n => n.id === id);
+            return node ? [{ node, score }] : [];
+        })
+        : nodeSearchQuery
+            ? graphData.nodes
+                .filter(n => n.label.toLowerCase().includes(nodeSearchQuery.toLowerCase()))
+                .slice(0, SEARCH_RESULT_LIMIT)
+                .map(node => ({ node }))
+            : [];
+
     const pendingUpdates = graphData.nodes.filter(n =>
-        n.type === NodeType.FUNCTION && n.language === 'python' && (!n.embedding || n.isStale)
+        isCallableNode(n) && n.language === 'python' && (!n.embedding || n.isStale)
     ).length;
 
     if (isLoading) {
@@ -452,9 +1028,12 @@ const App: React.FC = () => {
                 <Sidebar
                     fileTree={renderedTree}
                     onFileSelect={handleFileSelect}
+                    onFolderToggle={handleFolderToggle}
                     onFilesUploaded={handleFilesUploaded}
                     selectedId={selectedNodeId}
                     onToggle={() => setIsSidebarOpen(!isSidebarOpen)}
+                    dirtyFiles={dirtyFiles}
+                    onReveal={isVSCode ? handleRevealItem : undefined}
                 />
             </div>
 
@@ -477,39 +1056,81 @@ const App: React.FC = () => {
                     onToggleFilter={handleToggleFilter}
                     onRecalculateSemantics={handleRecalculateSemanticGraph}
                     pendingUpdates={pendingUpdates}
-                    isLoading={isCalculatingEmbeddings}
+                    embeddingProgress={embeddingProgress}
+                    similarityThreshold={similarityThreshold ?? defaultSimilarityThreshold(graphData.nodes.find(n => n.embedding)?.embeddingModel)}
+                    onSimilarityThresholdChange={setSimilarityThreshold}
+                    onCancelEmbeddings={handleCancelEmbeddings}
+                    interpreter={interpreter}
+                    onSelectInterpreter={() => vscodeApi.selectInterpreter().catch(err => console.error('Failed to select interpreter:', err))}
+                    unsavedCount={dirtyFiles.size}
+                    onSaveAll={() => handleSaveFiles([...dirtyFiles])}
+                    followEditor={followEditor}
+                    onToggleFollowEditor={isVSCode
+                        ? () => vscodeApi.setFollowEditor(!followEditor).catch(err => console.error('Failed to toggle follow mode:', err))
+                        : undefined}
                 />
 
                 {viewMode === 'graph' && (
                     <>
                         <div className="absolute top-4 left-4 z-40 w-64">
-                            <div className="relative group">
-                                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500 group-focus-within:text-primary transition-colors" size={16} />
-                                <input
-                                    type="text"
-                                    value={nodeSearchQuery}
-                                    onChange={(e) => setNodeSearchQuery(e.target.value)}
-                                    placeholder="Search nodes..."
-                                    className="w-full bg-surface/50 backdrop-blur-md border border-white/10 rounded-full py-2 pl-10 pr-8 text-sm focus:outline-none focus:ring-1 focus:ring-primary focus:bg-surface/80 transition-all shadow-xl"
-                                />
-                                {nodeSearchQuery && (
-                                    <button
-                                        onClick={() => setNodeSearchQuery('')}
-                                        className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500 hover:text-white transition-colors"
-                                    >
-                                        <X size={14} />
-                                    </button>
-                                )}
-                            </div>
+                            <SearchBar
+                                query={nodeSearchQuery}
+                                mode={searchMode}
+                                results={searchResults}
+                                isSearching={isSemanticSearching}
+                                canSearchSemantically={isVSCode}
+                                onQueryChange={setNodeSearchQuery}
+                                onModeChange={setSearchMode}
+                                onSelectResult={handleNodeSelect}
+                            />
                         </div>
+                        {loadProgress && (
+                            <div
+                                className="absolute bottom-4 right-4 z-40 flex items-center space-x-2 px-3 py-1.5 rounded-full text-xs shadow-xl"
+                                style={{ background: 'var(--vscode-sideBar-background)', border: '1px solid var(--vscode-panel-border)', color: 'var(--vscode-descriptionForeground)' }}
+                            >
+                                <Loader2 size={12} className="animate-spin" />
+                                <span>Loading files {loadProgress.loaded} / {loadProgress.total}</span>
+                            </div>
+                        )}
+                        {truncatedFiles.length > 0 && (
+                            <div
+                                className="absolute top-4 left-1/2 -translate-x-1/2 z-40 flex items-start space-x-2 px-3 py-2 rounded-lg text-xs shadow-xl max-w-md"
+                                style={{
+                                    background: 'var(--vscode-inputValidation-warningBackground)',
+                                    border: '1px solid var(--vscode-inputValidation-warningBorder)',
+                                    color: 'var(--vscode-editor-foreground)'
+                                }}
+                            >
+                                <AlertTriangle size={14} className="shrink-0 mt-0.5" style={{ color: 'var(--vscode-editorWarning-foreground)' }} />
+                                <span>
+                                    Some files were left out of the graph:{' '}
+                                    {truncatedFiles.map(t => `${t.shown} of ${t.found} ${t.language}`).join(', ')} files shown.
+                                    Raise <code>tektite.maxFilesPerLanguage</code> or narrow <code>tektite.include</code> to see the rest.
+                                </span>
+                                <button onClick={() => setTruncatedFiles([])} className="shrink-0 opacity-70 hover:opacity-100" title="Dismiss">
+                                    <X size={14} />
+                                </button>
+                            </div>
+                        )}
                         <GraphCanvas
-                            data={graphData}
+                            data={displayedGraph}
                             layoutMode={graphLayout}
                             onNodeSelect={handleNodeSelect}
                             onRunCode={handleRunCode}
+                            onRunFunction={handleRunFunction}
                             selectedNodeId={selectedNodeId}
-                            searchQuery={nodeSearchQuery}
+                            searchQuery={searchMode === 'text' ? nodeSearchQuery : ''}
+                            searchMatches={searchMode === 'semantic' && semanticMatches
+                                ? Object.fromEntries(semanticMatches.map(m => [m.id, m.score]))
+                                : null}
                             edgeFilters={edgeFilters}
+                            clusters={clusters.filter(c => !collapsedClusterIds.includes(c.id))}
+                            onToggleCluster={handleToggleCluster}
+                            dirtyFiles={dirtyFiles}
+                            onRevealNode={isVSCode ? handleRevealInEditor : undefined}
+                            followedNodeId={followEditor ? followedNodeId : null}
+                            renamedFiles={renamedFiles}
                         />
                     </>
                 )}
@@ -519,6 +1140,7 @@ const App: React.FC = () => {
                         key={selectedNodeId}
                         selectedNode={selectedNode}
                         onRun={handleRunCode}
+                        onRunFunction={handleRunFunction}
                         onChange={handleCodeChange}
                     />
                 )}
@@ -530,8 +1152,14 @@ const App: React.FC = () => {
                     onClose={() => setIsRefactorPanelOpen(false)}
                     outputLog={outputLog}
                     isPythonReady={isPythonReady}
+                    isRunning={activeRunId !== null}
+                    onCancelRun={handleCancelRun}
                     selectedNode={selectedNode}
-                    onApplyRefactor={handleCodeChange}
+                    onApplyRefactor={handleApplyRefactor}
+                    graphData={graphData}
+                    fileMap={fileMap}
+                    getModuleName={(filePath) => pythonAnalysis.modules[filePath]?.moduleName ?? moduleNameFromPath(filePath)}
+                    onApplyFileEdits={handleApplyFileEdits}
                 />
             </div>
         </div>
@@ -0,0 +1,37 @@
+// Saved argument lists for "Run function", kept per node id in the webview state
+import * as vscodeApi from './vscodeApi';
+
+type ArgPresets = Record<string, string[]>;
+
+// Fallback for the browser preview, where there is no webview state
+let memoryPresets: ArgPresets = {};
+
+function loadPresets(): ArgPresets {
+    return vscodeApi.getState<{ argPresets?: ArgPresets }>()?.argPresets ?? memoryPresets;
+}
+
+function storePresets(argPresets: ArgPresets): void {
+    memoryPresets = argPresets;
+    vscodeApi.setState({ ...(vscodeApi.getState<object>() ?? {}), argPresets });
+}
+
+export function getArgPresets(nodeId: string): string[] {
+    return loadPresets()[nodeId] ?? [];
+}
+
+/**
+ * Saves args as the most recent preset of the node. Returns the updated list.
+ */
+export function saveArgPreset(nodeId: string, args: string): string[] {
+    const presets = loadPresets();
+    const list = [args, ...(presets[nodeId] ?? []).filter(a => a !== args)];
+    storePresets({ ...presets, [nodeId]: list });
+    return list;
+}
+
+export function deleteArgPreset(nodeId: string, args: string): string[] {
+    const presets = loadPresets();
+    const list = (presets[nodeId] ?? []).filter(a => a !== args);
+    storePresets({ ...presets, [nodeId]: list });
+    return list;
+}
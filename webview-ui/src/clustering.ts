@@ -0,0 +1,152 @@
+import { EdgeType, GraphData, LinkData, NodeData, NodeType } from './types';
+
+// Smaller groups are left alone; a hull around two nodes says no more than their edge
+const MIN_CLUSTER_SIZE = 3;
+const MAX_ITERATIONS = 20;
+
+export interface SemanticCluster {
+    id: string;
+    nodeIds: string[];
+}
+
+const linkEndId = (end: LinkData['source']) => typeof end === 'object' ? (end as any).id as string : end;
+
+/**
+ * Communities of the SEMANTIC edges, found with weighted label propagation: every node
+ * repeatedly takes the label carrying the most edge weight among its neighbours. Nodes
+ * are visited in id order and ties go to the smaller label, so the same graph always
+ * gives the same clusters. Cluster ids derive from their first member and so survive
+ * small changes to the edges.
+ */
+export function findSemanticClusters(links: LinkData[]): SemanticCluster[] {
+    const neighbours = new Map<string, Map<string, number>>();
+    const connect = (a: string, b: string, weight: number) => {
+        if (!neighbours.has(a)) neighbours.set(a, new Map());
+        const edges = neighbours.get(a)!;
+        edges.set(b, Math.max(edges.get(b) ?? 0, weight));
+    };
+    links.forEach(l => {
+        if (l.type !== EdgeType.SEMANTIC) return;
+        const source = linkEndId(l.source);
+        const target = linkEndId(l.target);
+        connect(source, target, l.weight ?? 1);
+        connect(target, source, l.weight ?? 1);
+    });
+
+    const ids = [...neighbours.keys()].sort();
+    const labels = new Map(ids.map(id => [id, id]));
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+        let changed = false;
+        ids.forEach(id => {
+            const weights = new Map<string, number>();
+            neighbours.get(id)!.forEach((weight, other) => {
+                const label = labels.get(other)!;
+                weights.set(label, (weights.get(label) ?? 0) + weight);
+            });
+
+            let best = labels.get(id)!;
+            let bestWeight = weights.get(best) ?? 0;
+            weights.forEach((weight, label) => {
+                if (weight > bestWeight || (weight === bestWeight && label < best)) {
+                    best = label;
+                    bestWeight = weight;
+                }
+            });
+
+            if (best !== labels.get(id)) {
+                labels.set(id, best);
+                changed = true;
+            }
+        });
+        if (!changed) break;
+    }
+
+    const members = new Map<string, string[]>();
+    ids.forEach(id => {
+        const label = labels.get(id)!;
+        if (!members.has(label)) members.set(label, []);
+        members.get(label)!.push(id);
+    });
+
+    return [...members.values()]
+        .filter(nodeIds => nodeIds.length >= MIN_CLUSTER_SIZE)
+        .map(nodeIds => ({ id: `cluster-${nodeIds[0]}`, nodeIds }));
+}
+
+/**
+ * Identifies a cluster's membership, so a label is only requested again when the members change.
+ */
+export function clusterSignature(cluster: SemanticCluster): string {
+    return cluster.nodeIds.join('|');
+}
+
+/**
+ * Label used until (or instead of) an AI-generated one: the identifier word most members
+ * share, such as "render" for render_row, render_cell and renderHeader.
+ */
+export function describeCluster(memberLabels: string[]): string {
+    const counts = new Map<string, number>();
+    memberLabels.forEach(label => {
+        const words = label
+            .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+            .toLowerCase()
+            .split(/[^a-z0-9]+/)
+            .filter(word => word.length > 2);
+        new Set(words).forEach(word => counts.set(word, (counts.get(word) ?? 0) + 1));
+    });
+
+    let best: string | undefined;
+    let bestCount = 1;
+    counts.forEach((count, word) => {
+        if (count > bestCount) {
+            best = word;
+            bestCount = count;
+        }
+    });
+    return best ? `${best} (${memberLabels.length})` : `${memberLabels.length} similar functions`;
+}
+
+/**
+ * Replaces the members of each collapsed cluster with a single CLUSTER node. Edges are
+ * re-attached to the cluster node; edges inside the cluster are dropped and parallel
+ * edges are merged, keeping the strongest.
+ */
+export function collapseClusters(
+    data: GraphData,
+    clusters: Array<SemanticCluster & { label: string }>,
+    collapsedIds: string[]
+): GraphData {
+    const collapsed = clusters.filter(c => collapsedIds.includes(c.id));
+    if (collapsed.length === 0) return data;
+
+    const clusterOf = new Map<string, string>();
+    collapsed.forEach(c => c.nodeIds.forEach(id => clusterOf.set(id, c.id)));
+
+    const clusterNodes: NodeData[] = collapsed.map(c => ({
+        id: c.id,
+        type: NodeType.CLUSTER,
+        label: c.label,
+        clusterMembers: c.nodeIds
+    }));
+
+    const links = new Map<string, LinkData>();
+    data.links.forEach(l => {
+        const source = linkEndId(l.source);
+        const target = linkEndId(l.target);
+        const newSource = clusterOf.get(source) ?? source;
+        const newTarget = clusterOf.get(target) ?? target;
+        if (newSource === newTarget && newSource !== source) return;
+
+        const key = `${newSource}-${newTarget}-${l.type}`;
+        const existing = links.get(key);
+        if (!existing || (l.weight ?? 0) > (existing.weight ?? 0)) {
+            links.set(key, { ...l, source: newSource, target: newTarget });
+        }
+    });
+
+    return {
+        nodes: [...data.nodes.filter(n => !clusterOf.has(n.id)), ...clusterNodes],
+        links: [...links.values()]
+    };
+}
@@ -1,11 +1,13 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { NodeData } from '../types';
+import { NodeData, NodeType } from '../types';
 import { FileCode, Play } from 'lucide-react';
+import { RunArgsBar } from './RunArgsBar';
 
 interface CodeEditorProps {
   selectedNode: NodeData | null;
   onRun: (code: string) => void;
+  onRunFunction: (node: NodeData, args: string) => void;
   onChange: (newCode: string) => void;
 }
 
@@ -104,7 +106,7 @@ interface HistoryState {
     cursor: number;
 }
 
-export const CodeEditor: React.FC<CodeEditorProps> = ({ selectedNode, onRun, onChange }) => {
+export const CodeEditor: React.FC<CodeEditorProps> = ({ selectedNode, onRun, onRunFunction, onChange }) => {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const preRef = useRef<HTMLPreElement>(null);
   const lineNumbersRef = useRef<HTMLDivElement>(null);
@@ -249,7 +251,11 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ selectedNode, onRun, onC
              </div>
           </div>
           
-          {selectedNode.language === 'python' && (
+          {selectedNode.language === 'python' && (selectedNode.type === NodeType.FUNCTION || selectedNode.type === NodeType.METHOD) && (
+              <RunArgsBar nodeId={selectedNode.id} onRun={(args) => onRunFunction(selectedNode, args)} />
+          )}
+
+          {selectedNode.language === 'python' && selectedNode.type !== NodeType.FUNCTION && selectedNode.type !== NodeType.METHOD && (
               <button 
                 onClick={() => onRun(code)}
                 className="group flex items-center space-x-2 px-3 py-1.5 bg-green-600/10 hover:bg-green-600/20 text-green-400 rounded-md transition-all text-xs font-medium border border-green-500/20 hover:border-green-500/40"
@@ -1,21 +1,30 @@
 import React from 'react';
 import { NodeData, NodeType } from '../types';
-import { FileCode2, FileJson, FileText, Play, X, Braces, Layers, FileType } from 'lucide-react';
+import { RunArgsBar } from './RunArgsBar';
+import { FileCode2, FileJson, FileText, Play, X, Braces, Layers, FileType, Boxes, SquareFunction, Network, ExternalLink } from 'lucide-react';
 
 interface CodeNodeProps {
   data: NodeData;
   scale: number;
   selected?: boolean;
+  isDirty?: boolean; // The node's file has edits not yet saved to disk
   onClick: () => void;
   onRun?: (code: string) => void;
+  onRunFunction?: (node: NodeData, args: string) => void;
+  onReveal?: (node: NodeData) => void; // Opens the node's source in a VS Code editor
 }
 
-export const CodeNode: React.FC<CodeNodeProps> = ({ data, scale, selected, onClick, onRun }) => {
+export const CodeNode: React.FC<CodeNodeProps> = ({ data, scale, selected, isDirty, onClick, onRun, onRunFunction, onReveal }) => {
   const isDetailed = selected;
   const isPython = data.language === 'python';
+  // Functions and methods run on their own, with arguments; modules run as scripts
+  const isRunnableFunction = isPython && !!onRunFunction && (data.type === NodeType.FUNCTION || data.type === NodeType.METHOD);
 
-  // Dynamic sizing
+  // Dynamic sizing (methods are drawn smaller so they read as members of their class)
   const width = isDetailed ? 340 : 60;
+  const isCluster = data.type === NodeType.CLUSTER;
+  const collapsedSize = data.type === NodeType.METHOD ? 46 : isCluster ? 76 : 60;
+  const collapsedRadius = data.type === NodeType.CLASS ? '14px' : isCluster ? '22px' : '9999px';
 
   // Icons & Colors based on Type
   let Icon = FileCode2;
@@ -38,6 +47,22 @@ export const CodeNode: React.FC<CodeNodeProps> = ({ data, scale, selected, onCli
     } else {
       colorClass = 'text-emerald-400';
     }
+  } else if (data.type === NodeType.CLASS) {
+    // Class (Violet)
+    Icon = Boxes;
+    colorClass = 'text-violet-400';
+    bgClass = selected ? 'from-[#1e152e] to-[#110a1a]' : 'from-violet-500/10 to-violet-600/5';
+    borderClass = selected ? 'border-violet-400 ring-1 ring-violet-400/50' : 'border-violet-500/30';
+  } else if (data.type === NodeType.METHOD) {
+    // Method (Cyan) - a function bound to a class
+    Icon = SquareFunction;
+    colorClass = 'text-cyan-400';
+    bgClass = selected ? 'from-[#1e293b] to-[#0f172a]' : 'from-cyan-500/10 to-cyan-600/5';
+    borderClass = selected ? 'border-cyan-400 ring-1 ring-cyan-400/50' : 'border-cyan-500/30';
+  } else if (isCluster) {
+    // Collapsed semantic cluster (Pink)
+    Icon = Network;
+    colorClass = 'text-pink-400';
   } else if (data.type === NodeType.MODULE || data.type === NodeType.FILE) {
     // Default File Styling (Blue-ish)
     Icon = FileCode2;
@@ -85,7 +110,7 @@ export const CodeNode: React.FC<CodeNodeProps> = ({ data, scale, selected, onCli
   };
 
   // --- DETAILED (SELECTED) VIEW ---
-  if (isDetailed) {
+  if (isDetailed && !isCluster) {
     return (
       <div
         onClick={(e) => { e.stopPropagation(); onClick(); }}
@@ -118,7 +143,7 @@ export const CodeNode: React.FC<CodeNodeProps> = ({ data, scale, selected, onCli
             </div>
           </div>
           <div className="flex items-center space-x-1">
-            {isPython && (
+            {isPython && !isRunnableFunction && (
               <button
                 onClick={handleRun}
                 className="flex items-center space-x-1 px-2 py-1 rounded text-[10px] transition-colors"
@@ -129,6 +154,16 @@ export const CodeNode: React.FC<CodeNodeProps> = ({ data, scale, selected, onCli
                 <span>RUN</span>
               </button>
             )}
+            {onReveal && data.filePath && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onReveal(data); }}
+                className="p-1 rounded transition-colors"
+                style={{ color: 'var(--vscode-descriptionForeground)' }}
+                title="Reveal in Editor"
+              >
+                <ExternalLink size={13} />
+              </button>
+            )}
             <button
               onClick={(e) => { e.stopPropagation(); onClick(); }}
               className="p-1 rounded transition-colors"
@@ -139,6 +174,12 @@ export const CodeNode: React.FC<CodeNodeProps> = ({ data, scale, selected, onCli
           </div>
         </div>
 
+        {isRunnableFunction && (
+          <div className="flex items-center justify-end px-3 py-1.5" style={{ borderBottom: '1px solid var(--vscode-panel-border)', background: 'var(--vscode-sideBar-background)' }}>
+            <RunArgsBar nodeId={data.id} onRun={(args) => onRunFunction!(data, args)} />
+          </div>
+        )}
+
         {/* Code Snippet Body */}
         <div className="p-0" style={{ background: 'var(--vscode-editor-background)' }}>
           {data.code && (
@@ -172,10 +213,11 @@ export const CodeNode: React.FC<CodeNodeProps> = ({ data, scale, selected, onCli
   return (
     <div
       onClick={(e) => { e.stopPropagation(); onClick(); }}
-      className="absolute rounded-full flex items-center justify-center transition-all duration-300 cursor-pointer hover:scale-110 hover:brightness-110 z-0 hover:z-10"
+      className="absolute flex items-center justify-center transition-all duration-300 cursor-pointer hover:scale-110 hover:brightness-110 z-0 hover:z-10"
       style={{
-        width: 60,
-        height: 60,
+        width: collapsedSize,
+        height: collapsedSize,
+        borderRadius: collapsedRadius,
         transform: 'translate(-50%, -50%)',
         left: 0,
         top: 0,
@@ -188,7 +230,23 @@ export const CodeNode: React.FC<CodeNodeProps> = ({ data, scale, selected, onCli
                     0 0 0 1px color-mix(in srgb, var(--vscode-panel-border) 30%, transparent)`
       }}
     >
-      <Icon size={24} className={colorClass} />
+      <Icon size={data.type === NodeType.METHOD ? 18 : 24} className={colorClass} />
+      {isCluster && (
+        <span
+          className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full text-[10px] flex items-center justify-center"
+          style={{ background: 'var(--vscode-badge-background)', color: 'var(--vscode-badge-foreground)' }}
+          title="Click to expand"
+        >
+          {data.clusterMembers?.length}
+        </span>
+      )}
+      {isDirty && (
+        <span
+          className="absolute -top-0.5 -right-0.5 w-2.5 h-2.5 rounded-full"
+          style={{ background: 'var(--vscode-editorGutter-modifiedBackground, var(--vscode-textLink-foreground))' }}
+          title="Unsaved changes"
+        />
+      )}
       {/* Label below node for context */}
       <div
         className="absolute top-full mt-2 px-2.5 py-1 rounded-md text-[10px] whitespace-nowrap pointer-events-none font-medium"
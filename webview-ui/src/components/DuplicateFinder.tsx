@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { Copy, GitCommit, Loader2, ArrowLeftRight, FilePlus } from 'lucide-react';
+import { FileMap, GraphData } from '../types';
+import { DuplicatePair, HelperProposal, findDuplicateCandidates, buildHelperExtraction, currentPair } from '../duplicates';
+import { diffLines, trimDiffContext } from '../lineDiff';
+import * as vscodeApi from '../vscodeApi';
+
+// Strongest SEMANTIC edges sent to the AI per search
+const MAX_PAIRS = 5;
+
+interface DuplicateFinderProps {
+    graphData: GraphData;
+    fileMap: FileMap;
+    getModuleName: (filePath: string) => string;
+    onApplyEdits: (files: FileMap, label: string) => void;
+}
+
+interface Proposal {
+    pair: DuplicatePair;
+    proposal: HelperProposal;
+}
+
+export const DuplicateFinder: React.FC<DuplicateFinderProps> = ({ graphData, fileMap, getModuleName, onApplyEdits }) => {
+    const [isSearching, setIsSearching] = useState(false);
+    const [progress, setProgress] = useState({ done: 0, total: 0 });
+    const [proposals, setProposals] = useState<Proposal[] | null>(null);
+    const [selectedIndex, setSelectedIndex] = useState(0);
+    const [helperFilePath, setHelperFilePath] = useState('');
+
+    const handleFindDuplicates = async () => {
+        const pairs = findDuplicateCandidates(graphData, MAX_PAIRS);
+        setIsSearching(true);
+        setProposals(null);
+        setProgress({ done: 0, total: pairs.length });
+
+        const found: Proposal[] = [];
+        for (const pair of pairs) {
+            try {
+                const prompt = `You are an expert Python code refactorer.
+                The two functions below were found to be semantically similar. Decide whether they share logic worth extracting into a common helper function.
+                Return a JSON object with:
+                - worthExtracting: true only if a shared helper removes real duplication.
+                - description: A short explanation of what the helper does and why it helps.
+                - helperName: The name of the new helper function (snake_case).
+                - helperCode: The COMPLETE helper function, defined at module level (no indentation).
+                - firstCode: The COMPLETE first function rewritten to call the helper. Keep its name, signature, decorators and indentation.
+                - secondCode: The COMPLETE second function rewritten to call the helper. Keep its name, signature, decorators and indentation.
+
+                First function (${pair.first.label} in ${pair.first.filePath}):
+                ${pair.first.code}
+
+                Second function (${pair.second.label} in ${pair.second.filePath}):
+                ${pair.second.code}`;
+
+                const schema = {
+                    type: "OBJECT",
+                    properties: {
+                        worthExtracting: { type: "BOOLEAN" },
+                        description: { type: "STRING" },
+                        helperName: { type: "STRING" },
+                        helperCode: { type: "STRING" },
+                        firstCode: { type: "STRING" },
+                        secondCode: { type: "STRING" },
+                    }
+                };
+
+                const response = await vscodeApi.callAI(prompt, schema);
+                const result = response.result;
+                if (result?.worthExtracting && result.helperName && result.helperCode && result.firstCode && result.secondCode) {
+                    found.push({ pair, proposal: result });
+                }
+            } catch (error) {
+                console.error("Duplicate analysis failed:", error);
+            }
+            setProgress(prev => ({ ...prev, done: prev.done + 1 }));
+        }
+
+        setProposals(found);
+        setSelectedIndex(0);
+        setHelperFilePath(found[0]?.pair.first.filePath ?? '');
+        setIsSearching(false);
+    };
+
+    const selected = proposals?.[selectedIndex];
+    // Files may have changed since the search; the proposal applies only to the code it was written for
+    const pair = selected && currentPair(selected.pair, graphData, fileMap);
+    const helperPath = helperFilePath.trim();
+    const changedFiles = selected && pair && helperPath.endsWith('.py')
+        ? buildHelperExtraction(pair, selected.proposal, helperPath, getModuleName(helperPath), fileMap)
+        : {};
+    const pythonFiles = Object.keys(fileMap).filter(filePath => filePath.endsWith('.py')).sort();
+
+    const handleSelect = (index: number) => {
+        setSelectedIndex(index);
+        setHelperFilePath(proposals?.[index]?.pair.first.filePath ?? '');
+    };
+
+    const handleApply = () => {
+        if (Object.keys(changedFiles).length === 0) return;
+        onApplyEdits(changedFiles, `Extract ${selected!.proposal.helperName}`);
+        // Line numbers of the remaining proposals no longer match the files
+        setProposals(null);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-400 max-w-[220px]">
+                    Looks for shared helpers in the most similar pairs of functions.
+                </p>
+                <button
+                    onClick={handleFindDuplicates}
+                    disabled={isSearching}
+                    className="bg-primary hover:bg-primary/90 disabled:opacity-50 text-white px-3 py-1.5 rounded-full text-xs font-medium transition-all flex items-center space-x-1.5"
+                >
+                    {isSearching ? <Loader2 size={12} className="animate-spin" /> : <Copy size={12} />}
+                    <span>Find duplicates</span>
+                </button>
+            </div>
+
+            {isSearching && (
+                <div className="text-xs text-gray-400 animate-pulse">
+                    Analyzing pair {Math.min(progress.done + 1, progress.total)} of {progress.total}...
+                </div>
+            )}
+
+            {proposals && proposals.length === 0 && (
+                <div className="text-center text-gray-500 text-xs mt-6">
+                    {progress.total === 0
+                        ? 'No similar functions yet. Turn on semantic edges and update the graph first.'
+                        : 'No shared helpers worth extracting were found.'}
+                </div>
+            )}
+
+            {proposals && proposals.map((p, i) => (
+                <div
+                    key={`${p.pair.first.id}-${p.pair.second.id}`}
+                    onClick={() => handleSelect(i)}
+                    className={`rounded-lg p-3 border cursor-pointer transition-colors ${i === selectedIndex ? 'border-primary/60 bg-surfaceHighlight/60' : 'border-white/5 bg-surfaceHighlight/30 hover:bg-surfaceHighlight/50'}`}
+                >
+                    <div className="flex items-center justify-between text-xs">
+                        <div className="flex items-center space-x-1.5 font-mono text-gray-200 min-w-0">
+                            <span className="truncate">{p.pair.first.label}</span>
+                            <ArrowLeftRight size={12} className="shrink-0 text-gray-500" />
+                            <span className="truncate">{p.pair.second.label}</span>
+                        </div>
+                        <span className="ml-2 shrink-0 font-mono text-[10px]" style={{ color: 'var(--vscode-textLink-foreground)' }}>
+                            {p.pair.score.toFixed(2)}
+                        </span>
+                    </div>
+                    <p className="text-[11px] text-gray-400 leading-relaxed mt-1.5">
+                        <span className="font-mono text-green-400">{p.proposal.helperName}()</span> {p.proposal.description}
+                    </p>
+                </div>
+            ))}
+
+            {selected && (
+                <>
+                    <div className="space-y-1">
+                        <label className="text-[10px] uppercase tracking-wider text-gray-500">Create helper in</label>
+                        <input
+                            type="text"
+                            list="duplicate-helper-modules"
+                            value={helperFilePath}
+                            onChange={(e) => setHelperFilePath(e.target.value)}
+                            placeholder="path/to/module.py"
+                            className="w-full rounded px-2 py-1 text-xs font-mono focus:outline-none"
+                            style={{ background: 'var(--vscode-input-background)', color: 'var(--vscode-input-foreground)', border: '1px solid var(--vscode-input-border, var(--vscode-panel-border))' }}
+                        />
+                        <datalist id="duplicate-helper-modules">
+                            {pythonFiles.map(filePath => <option key={filePath} value={filePath} />)}
+                        </datalist>
+                    </div>
+
+                    {Object.entries(changedFiles).map(([filePath, content]) => (
+                        <div key={filePath} className="bg-[#0D1117] rounded-lg border border-white/10 overflow-hidden">
+                            <div className="flex items-center justify-between px-3 py-2 bg-white/5 border-b border-white/5">
+                                <span className="text-xs font-mono text-gray-400 truncate">{filePath}</span>
+                                {fileMap[filePath] === undefined && (
+                                    <span className="flex items-center space-x-1 text-[10px] bg-green-500/20 text-green-400 px-1.5 py-0.5 rounded">
+                                        <FilePlus size={10} />
+                                        <span>New file</span>
+                                    </span>
+                                )}
+                            </div>
+                            <div className="font-mono text-[11px] overflow-x-auto bg-[#0D1117] leading-relaxed">
+                                {trimDiffContext(diffLines(fileMap[filePath] ?? '', content)).map((line, i) => line === null ? (
+                                    <div key={i} className="h-px w-full border-t border-dashed border-gray-800 my-1 opacity-50" />
+                                ) : (
+                                    <div
+                                        key={i}
+                                        className={`flex w-full ${line.kind === 'added' ? 'bg-green-900/10' : line.kind === 'removed' ? 'bg-red-900/10' : ''}`}
+                                    >
+                                        <span className={`w-6 shrink-0 select-none text-center mr-2 ${line.kind === 'added' ? 'text-green-500/50' : line.kind === 'removed' ? 'text-red-500/50' : 'text-gray-600'}`}>
+                                            {line.kind === 'added' ? '+' : line.kind === 'removed' ? '-' : ' '}
+                                        </span>
+                                        <pre className={`whitespace-pre font-mono m-0 py-0.5 ${line.kind === 'added' ? 'text-green-300' : line.kind === 'removed' ? 'text-red-200/70' : 'text-gray-500'}`}>{line.text || ' '}</pre>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+
+                    {!pair && (
+                        <p className="text-[11px]" style={{ color: 'var(--vscode-errorForeground)' }}>
+                            These functions changed since the search. Find duplicates again for a new proposal.
+                        </p>
+                    )}
+
+                    <button
+                        onClick={handleApply}
+                        disabled={Object.keys(changedFiles).length === 0}
+                        className="w-full bg-primary hover:bg-primary/90 disabled:opacity-50 text-white font-medium py-2 rounded-lg shadow-lg shadow-primary/20 transition-all flex items-center justify-center space-x-2 group"
+                    >
+                        <GitCommit size={16} className="group-hover:scale-110 transition-transform" />
+                        <span>Apply to {Object.keys(changedFiles).length} file{Object.keys(changedFiles).length === 1 ? '' : 's'}</span>
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
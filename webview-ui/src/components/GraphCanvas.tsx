@@ -1,8 +1,11 @@
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
+import { Minimize2 } from 'lucide-react';
 import { GraphData, NodeData, EdgeType, NodeType } from '../types';
 import { CodeNode } from './CodeNode';
+import { stableJitter } from '../constants';
+import { renamedNodeId } from '../graphDiff';
 import { EdgeFilters, GraphLayout } from './Toolbar';
 
 interface GraphCanvasProps {
@@ -10,11 +13,35 @@ interface GraphCanvasProps {
     layoutMode: GraphLayout;
     onNodeSelect: (node: NodeData | null) => void;
     onRunCode: (code: string) => void;
+    onRunFunction: (node: NodeData, args: string) => void;
     selectedNodeId: string | null;
     searchQuery: string;
+    // Semantic search matches by node id, with their similarity; everything else is dimmed
+    searchMatches?: Record<string, number> | null;
     edgeFilters: EdgeFilters;
+    // Expanded semantic clusters, drawn as labelled hulls behind their members
+    clusters?: Array<{ id: string; label: string; nodeIds: string[] }>;
+    onToggleCluster?: (clusterId: string) => void;
+    // Workspace paths with edits not yet saved to disk
+    dirtyFiles?: Set<string>;
+    onRevealNode?: (node: NodeData) => void;
+    // Follow mode: the node at the editor cursor; its direct callers and callees are highlighted
+    followedNodeId?: string | null;
+    // Files just renamed on disk, old path to new; their nodes keep their positions
+    renamedFiles?: Map<string, string>;
 }
 
+// Distance the cluster hull keeps from its members' centres
+const HULL_PADDING = 50;
+const CLUSTER_COLORS = [
+    'var(--vscode-terminal-ansiMagenta, #C084FC)',
+    'var(--vscode-terminal-ansiCyan, #22D3EE)',
+    'var(--vscode-terminal-ansiGreen, #4ADE80)',
+    'var(--vscode-terminal-ansiYellow, #FACC15)',
+    'var(--vscode-terminal-ansiBlue, #60A5FA)',
+    'var(--vscode-terminal-ansiRed, #F87171)'
+];
+
 interface SimulatedNode extends NodeData, d3.SimulationNodeDatum { }
 interface SimulatedLink extends d3.SimulationLinkDatum<SimulatedNode> {
     type: EdgeType;
@@ -26,9 +53,17 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
     layoutMode,
     onNodeSelect,
     onRunCode,
+    onRunFunction,
     selectedNodeId,
     searchQuery,
-    edgeFilters
+    searchMatches,
+    edgeFilters,
+    clusters = [],
+    onToggleCluster,
+    dirtyFiles,
+    onRevealNode,
+    followedNodeId,
+    renamedFiles
 }) => {
     const containerRef = useRef<HTMLDivElement>(null);
     const svgRef = useRef<SVGSVGElement>(null);
@@ -41,6 +76,28 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
     const [nodes, setNodes] = useState<SimulatedNode[]>([]);
     const simulationRef = useRef<d3.Simulation<SimulatedNode, SimulatedLink> | null>(null);
 
+    // Semantic matches take precedence over the name filter
+    const isFiltering = !!searchMatches || !!searchQuery;
+    const isDimmed = (n: NodeData) => searchMatches
+        ? searchMatches[n.id] === undefined
+        : !n.label.toLowerCase().includes(searchQuery.toLowerCase());
+
+    // Direct CALLS neighbours of the followed node, as 'caller' or 'callee'
+    const callRoles = useMemo(() => {
+        const roles = new Map<string, 'caller' | 'callee'>();
+        if (!followedNodeId) return roles;
+        data.links.forEach(l => {
+            if (l.type !== EdgeType.CALLS) return;
+            const source = typeof l.source === 'object' ? (l.source as any).id : l.source;
+            const target = typeof l.target === 'object' ? (l.target as any).id : l.target;
+            if (target === followedNodeId && source !== followedNodeId) roles.set(source, 'caller');
+            if (source === followedNodeId && target !== followedNodeId) roles.set(target, 'callee');
+        });
+        return roles;
+    }, [followedNodeId, data.links]);
+    const isFollowedCall = (d: any) => !!followedNodeId && d.type === EdgeType.CALLS
+        && (d.source.id === followedNodeId || d.target.id === followedNodeId);
+
     // Filter links for Rendering based on Toggles
     const getRenderableLinks = (allLinks: SimulatedLink[]) => {
         return allLinks.filter(l => {
@@ -49,6 +106,13 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
         });
     };
 
+    // The simulation only restarts when nodes or edges come or go; edits to a node's code don't move anything
+    const structureKey = useMemo(
+        () => `${data.nodes.map(n => n.id).join('|')}#${data.links.map(l => `${l.source}-${l.target}-${l.type}`).join('|')}`,
+        [data.nodes, data.links]
+    );
+    const simulatedLayoutRef = useRef<GraphLayout | null>(null);
+
     useEffect(() => {
         if (!containerRef.current) return;
 
@@ -57,11 +121,27 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
 
         // Clone data to avoid mutating props directly
         // If nodes already exist in state (previous tick), use their position to prevent jumping
+        const existingNodes = new Map(nodes.map(en => [renamedFiles ? renamedNodeId(en.id, renamedFiles) : en.id, en]));
         const nodesCopy: SimulatedNode[] = data.nodes.map(n => {
-            const existing = nodes.find(en => en.id === n.id);
+            const existing = existingNodes.get(n.id);
             if (existing) {
                 return { ...n, x: existing.x, y: existing.y, vx: existing.vx, vy: existing.vy };
             }
+            // A symbol added to a file on screen starts next to its parent
+            const parent = n.parentId ? existingNodes.get(n.parentId) : undefined;
+            if (parent?.x !== undefined && parent.y !== undefined) {
+                const [dx, dy] = stableJitter(n.id, 80);
+                return { ...n, x: parent.x + dx, y: parent.y + dy };
+            }
+            // A collapsed cluster starts where its members were; expanded members where the cluster was
+            const members = nodes.filter(en => n.clusterMembers?.includes(en.id));
+            if (members.length > 0) {
+                return { ...n, x: d3.mean(members, m => m.x), y: d3.mean(members, m => m.y) };
+            }
+            const cluster = nodes.find(en => en.clusterMembers?.includes(n.id));
+            if (cluster) {
+                return { ...n, x: cluster.x! + Math.random() * 40 - 20, y: cluster.y! + Math.random() * 40 - 20 };
+            }
             // Offset new nodes to center of screen immediately
             return {
                 ...n,
@@ -98,7 +178,7 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
         let simulationLinks = linksCopy;
         if (layoutMode === 'semantic') {
             // Semantic Mode: Prioritize Semantic edges
-            simulationLinks = linksCopy.filter(l => l.type === EdgeType.SEMANTIC || l.type === EdgeType.IMPORTS);
+            simulationLinks = linksCopy.filter(l => l.type === EdgeType.SEMANTIC || l.type === EdgeType.BELONGS_TO);
         } else if (layoutMode === 'connection') {
             // Connection Mode: Prioritize structural edges
             simulationLinks = linksCopy.filter(l => l.type !== EdgeType.SEMANTIC);
@@ -119,7 +199,7 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
             // Semantic links pull nodes VERY close (Brain Synapses)
             simulation.force('link', d3.forceLink<SimulatedNode, SimulatedLink>(simulationLinks)
                 .id(d => d.id)
-                .distance(l => l.type === EdgeType.SEMANTIC ? 30 : 120) // Semantic = Tight, Imports = Loose
+                .distance(l => l.type === EdgeType.SEMANTIC ? 30 : 120) // Semantic = Tight, Membership = Loose
                 .strength(l => l.type === EdgeType.SEMANTIC ? 0.9 : 0.2)
             );
 
@@ -144,7 +224,7 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
 
             simulation.force('link', d3.forceLink<SimulatedNode, SimulatedLink>(simulationLinks)
                 .id(d => d.id)
-                .distance(l => l.type === EdgeType.IMPORTS ? 100 : 200)
+                .distance(l => l.type === EdgeType.BELONGS_TO ? 100 : 200)
                 .strength(0.3)
             );
 
@@ -155,6 +235,8 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
                 if (d.id.includes('main')) return 0;
                 // Other files at orbit 350
                 if (d.type === NodeType.MODULE || d.type === NodeType.FILE) return 350;
+                // Classes between files and their methods
+                if (d.type === NodeType.CLASS) return 280;
                 // Functions floating in between
                 return 200;
             }, width / 2, height / 2).strength(0.3));
@@ -176,6 +258,11 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
 
         simulation.velocityDecay(0.6);
         simulation.alphaTarget(0.002);
+        // Same layout with a few nodes or edges changed: settle them gently instead of reheating everything
+        if (simulatedLayoutRef.current === layoutMode && nodes.length > 0) {
+            simulation.alpha(0.1);
+        }
+        simulatedLayoutRef.current = layoutMode;
 
         simulation.on('tick', () => {
             setNodes([...simulation.nodes()]);
@@ -202,7 +289,19 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
         return () => {
             simulation.stop();
         };
-    }, [layoutMode, data.links.length, data.nodes.length]);
+    }, [layoutMode, structureKey]);
+
+    // Node content (code, line ranges, embeddings) changes in place, keeping positions and velocities
+    useEffect(() => {
+        const simulation = simulationRef.current;
+        if (!simulation) return;
+        const latest = new Map(data.nodes.map(n => [n.id, n]));
+        simulation.nodes().forEach(node => {
+            const next = latest.get(node.id);
+            if (next) Object.assign(node, { ...next, x: node.x, y: node.y, vx: node.vx, vy: node.vy });
+        });
+        setNodes([...simulation.nodes()]);
+    }, [data.nodes]);
 
 
     // --- Auto-Pan to Selected Node ---
@@ -245,8 +344,6 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
             return edgeFilters.showStructure;
         });
 
-        const isDimmed = (n: NodeData) => searchQuery && !n.label.toLowerCase().includes(searchQuery.toLowerCase());
-
         // --- DYNAMIC STROKE WIDTH & MARKER SCALING ---
         // Logic: Thinner when zoomed In, Thicker when zoomed Out.
         // Current Scale: zoomTransform.k
@@ -282,6 +379,7 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
             .transition().duration(100) // Smooth transition for width changes
             .attr('stroke-width', (d: any) => {
                 let width = d.type === EdgeType.SEMANTIC ? semanticWidth : structureWidth;
+                if (isFollowedCall(d)) width *= 2;
 
                 // --- WEIGHT MODIFIER FOR SEMANTIC EDGES ---
                 // If it's a semantic edge with a similarity weight (0.75 - 1.0),
@@ -299,8 +397,10 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
             })
             .attr('stroke', (d: any) => {
                 if (d.type === EdgeType.CALLS) return 'var(--vscode-focusBorder, #6E8FEE)';
-                if (d.type === EdgeType.IMPORTS) return 'var(--vscode-terminal-ansiGreen, #4ADE80)';
+                if (d.type === EdgeType.BELONGS_TO) return 'var(--vscode-terminal-ansiGreen, #4ADE80)';
+                if (d.type === EdgeType.IMPORTS) return 'var(--vscode-terminal-ansiCyan, #22D3EE)';
                 if (d.type === EdgeType.SEMANTIC) return 'var(--vscode-textLink-foreground, #A78BFA)';
+                if (d.type === EdgeType.INHERITS) return 'var(--vscode-terminal-ansiMagenta, #C084FC)';
                 return 'var(--vscode-panel-border, #555)';
             })
             .attr('stroke-dasharray', (d: any) => {
@@ -311,7 +411,8 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
                 return 'none';
             })
             .attr('opacity', (d: any) => {
-                if (searchQuery) {
+                if (isFollowedCall(d)) return 1;
+                if (isFiltering) {
                     if (isDimmed(d.source) || isDimmed(d.target)) return 0.1;
                     return 0.8;
                 }
@@ -342,11 +443,11 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
             })
             .attr('marker-end', (d: any) => {
                 if (d.type === EdgeType.SEMANTIC) return null;
-                if (searchQuery && (isDimmed(d.source) || isDimmed(d.target))) return null;
+                if (isFiltering && (isDimmed(d.source) || isDimmed(d.target))) return null;
                 return `url(#arrow-${d.type})`;
             });
 
-    }, [nodes, data.links, searchQuery, layoutMode, edgeFilters, zoomTransform.k]); // Added zoomTransform.k dependency
+    }, [nodes, data.links, searchQuery, searchMatches, layoutMode, edgeFilters, zoomTransform.k, followedNodeId]); // Added zoomTransform.k dependency
 
     const handleMouseMove = (e: React.MouseEvent, node: NodeData) => {
         setHoveredNode(node);
@@ -355,6 +456,34 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
 
     const handleBgClick = () => { onNodeSelect(null); };
 
+    // Cluster hulls follow the simulated positions; they belong with the semantic view
+    const showClusters = layoutMode === 'semantic' || edgeFilters.showSemantic;
+    const positions = new Map(nodes.map(n => [n.id, n]));
+    const hulls = showClusters ? clusters.flatMap((cluster, i) => {
+        const points: Array<[number, number]> = [];
+        cluster.nodeIds.forEach(id => {
+            const node = positions.get(id);
+            if (node?.x === undefined || node.y === undefined) return;
+            // A ring of points around each member rounds the hull and keeps it clear of the node
+            for (let step = 0; step < 8; step++) {
+                const angle = (step * Math.PI) / 4;
+                points.push([node.x + Math.cos(angle) * HULL_PADDING, node.y + Math.sin(angle) * HULL_PADDING]);
+            }
+        });
+
+        const hull = d3.polygonHull(points);
+        if (!hull) return [];
+        const top = hull.reduce((highest, point) => point[1] < highest[1] ? point : highest);
+        return [{
+            id: cluster.id,
+            label: cluster.label,
+            color: CLUSTER_COLORS[i % CLUSTER_COLORS.length],
+            path: d3.line().curve(d3.curveCatmullRomClosed)(hull) ?? '',
+            labelX: top[0],
+            labelY: top[1]
+        }];
+    }) : [];
+
     return (
         <div
             ref={containerRef}
@@ -388,14 +517,56 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
                 <defs>
                     {/* Markers refX will be updated dynamically via JS */}
                     <marker id={`arrow-${EdgeType.CALLS}`} viewBox="0 -5 10 10" refX="35" refY="0" markerWidth="6" markerHeight="6" orient="auto"><path d="M0,-5L10,0L0,5" fill="var(--vscode-focusBorder, #6E8FEE)" /></marker>
-                    <marker id={`arrow-${EdgeType.IMPORTS}`} viewBox="0 -5 10 10" refX="35" refY="0" markerWidth="6" markerHeight="6" orient="auto"><path d="M0,-5L10,0L0,5" fill="var(--vscode-terminal-ansiGreen, #4ADE80)" /></marker>
+                    <marker id={`arrow-${EdgeType.BELONGS_TO}`} viewBox="0 -5 10 10" refX="35" refY="0" markerWidth="6" markerHeight="6" orient="auto"><path d="M0,-5L10,0L0,5" fill="var(--vscode-terminal-ansiGreen, #4ADE80)" /></marker>
+                    <marker id={`arrow-${EdgeType.IMPORTS}`} viewBox="0 -5 10 10" refX="35" refY="0" markerWidth="6" markerHeight="6" orient="auto"><path d="M0,-5L10,0L0,5" fill="var(--vscode-terminal-ansiCyan, #22D3EE)" /></marker>
+                    <marker id={`arrow-${EdgeType.INHERITS}`} viewBox="0 -5 10 10" refX="35" refY="0" markerWidth="6" markerHeight="6" orient="auto"><path d="M0,-5L10,0L0,5" fill="var(--vscode-terminal-ansiMagenta, #C084FC)" /></marker>
                 </defs>
+                <g className="hulls-layer" transform={`translate(${zoomTransform.x},${zoomTransform.y}) scale(${zoomTransform.k})`}>
+                    {hulls.map(hull => (
+                        <path
+                            key={hull.id}
+                            d={hull.path}
+                            style={{
+                                fill: `color-mix(in srgb, ${hull.color} 8%, transparent)`,
+                                stroke: `color-mix(in srgb, ${hull.color} 40%, transparent)`,
+                                strokeWidth: 1.5,
+                                strokeDasharray: '6,4'
+                            }}
+                        />
+                    ))}
+                </g>
                 <g className="links-layer" transform={`translate(${zoomTransform.x},${zoomTransform.y}) scale(${zoomTransform.k})`} />
             </svg>
 
             <div className="absolute inset-0 w-full h-full origin-top-left pointer-events-none" style={{ transform: `translate(${zoomTransform.x}px, ${zoomTransform.y}px) scale(${zoomTransform.k})` }}>
+                {hulls.map(hull => (
+                    <div
+                        key={hull.id}
+                        className="absolute pointer-events-auto flex items-center space-x-1.5 px-2.5 py-0.5 rounded-full text-[11px] font-medium whitespace-nowrap"
+                        style={{
+                            left: hull.labelX,
+                            top: hull.labelY,
+                            transform: 'translate(-50%, -50%)',
+                            background: 'var(--vscode-sideBar-background)',
+                            border: `1px solid color-mix(in srgb, ${hull.color} 50%, transparent)`,
+                            color: hull.color
+                        }}
+                    >
+                        <span>{hull.label}</span>
+                        {onToggleCluster && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onToggleCluster(hull.id); }}
+                                className="opacity-70 hover:opacity-100"
+                                title="Collapse cluster into one node"
+                            >
+                                <Minimize2 size={11} />
+                            </button>
+                        )}
+                    </div>
+                ))}
                 {nodes.map(node => {
-                    const isDimmed = searchQuery && !node.label.toLowerCase().includes(searchQuery.toLowerCase());
+                    const score = searchMatches?.[node.id];
+                    const callRole = callRoles.get(node.id);
 
                     return (
                         <div
@@ -404,21 +575,44 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
                             style={{
                                 left: node.x,
                                 top: node.y,
-                                opacity: isDimmed ? 0.2 : 1
+                                opacity: isFiltering && isDimmed(node) ? 0.2 : 1
                             }}
                             onMouseEnter={(e) => handleMouseMove(e, node)}
                             onMouseLeave={() => setHoveredNode(null)}
                             onMouseMove={(e) => setHoverPos({ x: e.clientX + 15, y: e.clientY + 15 })}
                         >
+                            {score !== undefined && (
+                                <div
+                                    className="absolute -top-5 left-0 px-1.5 rounded-full text-[10px] font-mono whitespace-nowrap"
+                                    style={{ background: 'var(--vscode-badge-background)', color: 'var(--vscode-textLink-foreground)' }}
+                                    title="Similarity to the search query"
+                                >
+                                    {score.toFixed(2)}
+                                </div>
+                            )}
+                            {score === undefined && callRole && (
+                                <div
+                                    className="absolute -top-5 left-0 px-1.5 rounded-full text-[10px] whitespace-nowrap"
+                                    style={{ background: 'var(--vscode-badge-background)', color: 'var(--vscode-focusBorder)' }}
+                                    title={callRole === 'caller' ? 'Calls the function at the editor cursor' : 'Called by the function at the editor cursor'}
+                                >
+                                    {callRole}
+                                </div>
+                            )}
                             <CodeNode
                                 data={node}
                                 scale={zoomTransform.k}
                                 selected={selectedNodeId === node.id}
+                                isDirty={!!node.filePath && !!dirtyFiles?.has(node.filePath)}
                                 onClick={() => {
-                                    if (selectedNodeId === node.id) onNodeSelect(null);
+                                    // Clicking a collapsed cluster expands it again
+                                    if (node.type === NodeType.CLUSTER) onToggleCluster?.(node.id);
+                                    else if (selectedNodeId === node.id) onNodeSelect(null);
                                     else onNodeSelect(node);
                                 }}
                                 onRun={onRunCode}
+                                onRunFunction={onRunFunction}
+                                onReveal={onRevealNode}
                             />
                         </div>
                     );
@@ -428,10 +622,25 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
             {hoveredNode && hoveredNode.id !== selectedNodeId && (
                 <div className="fixed z-50 bg-surface/90 backdrop-blur border border-white/10 p-2.5 rounded-lg shadow-2xl pointer-events-none max-w-xs" style={{ left: hoverPos.x, top: hoverPos.y }}>
                     <div className="flex items-center space-x-2 mb-1">
-                        <span className={`w-2 h-2 rounded-full ${hoveredNode.language === 'python' ? 'bg-yellow-400' : 'bg-blue-400'}`} />
+                        <span className={`w-2 h-2 rounded-full ${hoveredNode.type === NodeType.CLASS ? 'bg-violet-400' : hoveredNode.type === NodeType.METHOD ? 'bg-cyan-400' : hoveredNode.language === 'python' ? 'bg-yellow-400' : 'bg-blue-400'}`} />
                         <h4 className="font-bold text-xs text-gray-100">{hoveredNode.label}</h4>
                     </div>
-                    <div className="text-[10px] text-gray-400">{hoveredNode.type}</div>
+                    <div className="text-[10px] text-gray-400">{hoveredNode.type}{hoveredNode.filePath && ` · ${hoveredNode.filePath}`}</div>
+                    {hoveredNode.signature && (
+                        <div className="text-[10px] font-mono text-gray-300 mt-1 break-all">
+                            {hoveredNode.decorators?.map(d => <div key={d} className="text-gray-500">{d}</div>)}
+                            {hoveredNode.signature}
+                        </div>
+                    )}
+                    {hoveredNode.externalImports && hoveredNode.externalImports.length > 0 && (
+                        <div className="text-[10px] text-gray-400 mt-1 break-all">
+                            {hoveredNode.externalImports.map(imp => (
+                                <span key={imp.module} className="mr-1.5">
+                                    {imp.module}<span className="text-gray-500"> ({imp.kind})</span>
+                                </span>
+                            ))}
+                        </div>
+                    )}
                 </div>
             )}
 
@@ -452,7 +661,15 @@ export const GraphCanvas: React.FC<GraphCanvasProps> = ({
                     </div>
                     <div className="flex items-center">
                         <div className="w-3 h-3 rounded-full mr-2.5 shadow-sm" style={{ background: 'var(--vscode-terminal-ansiGreen, #4ADE80)', boxShadow: '0 0 8px color-mix(in srgb, var(--vscode-terminal-ansiGreen) 50%, transparent)' }}></div>
-                        <span style={{ opacity: 0.9 }}>imports (Belongs To)</span>
+                        <span style={{ opacity: 0.9 }}>contains (Belongs To)</span>
+                    </div>
+                    <div className="flex items-center">
+                        <div className="w-3 h-3 rounded-full mr-2.5 shadow-sm" style={{ background: 'var(--vscode-terminal-ansiCyan, #22D3EE)', boxShadow: '0 0 8px color-mix(in srgb, var(--vscode-terminal-ansiCyan) 50%, transparent)' }}></div>
+                        <span style={{ opacity: 0.9 }}>imports (Module Import)</span>
+                    </div>
+                    <div className="flex items-center">
+                        <div className="w-3 h-3 rounded-full mr-2.5 shadow-sm" style={{ background: 'var(--vscode-terminal-ansiMagenta, #C084FC)', boxShadow: '0 0 8px color-mix(in srgb, var(--vscode-terminal-ansiMagenta) 50%, transparent)' }}></div>
+                        <span style={{ opacity: 0.9 }}>inherits (Subclass Of)</span>
                     </div>
                     {(layoutMode === 'semantic' || edgeFilters.showSemantic) && (
                         <div className="flex items-center">
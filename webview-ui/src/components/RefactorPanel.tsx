@@ -1,15 +1,22 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Sparkles, X, Check, ArrowRight, Activity, GitCommit, Terminal, Loader2, Play } from 'lucide-react';
-import { NodeData } from '../types';
+import { Sparkles, X, Check, ArrowRight, Activity, GitCommit, Terminal, Loader2, Play, Square, Copy } from 'lucide-react';
+import { ConsoleLine, FileMap, GraphData, NodeData } from '../types';
+import { DuplicateFinder } from './DuplicateFinder';
 import * as vscodeApi from '../vscodeApi';
 
 interface RefactorPanelProps {
     isOpen: boolean;
     onClose: () => void;
-    outputLog: string[];
+    outputLog: ConsoleLine[];
     isPythonReady: boolean;
+    isRunning: boolean;
+    onCancelRun: () => void;
     selectedNode: NodeData | null;
     onApplyRefactor: (newCode: string) => void;
+    graphData: GraphData;
+    fileMap: FileMap;
+    getModuleName: (filePath: string) => string;
+    onApplyFileEdits: (files: FileMap, label: string) => void;
 }
 
 interface RefactorResult {
@@ -26,11 +33,17 @@ export const RefactorPanel: React.FC<RefactorPanelProps> = ({
     onClose,
     outputLog,
     isPythonReady,
+    isRunning,
+    onCancelRun,
     selectedNode,
-    onApplyRefactor
+    onApplyRefactor,
+    graphData,
+    fileMap,
+    getModuleName,
+    onApplyFileEdits
 }) => {
     const scrollRef = useRef<HTMLDivElement>(null);
-    const [activeTab, setActiveTab] = useState<'refactor' | 'console'>('refactor');
+    const [activeTab, setActiveTab] = useState<'refactor' | 'duplicates' | 'console'>('refactor');
 
     const [isAnalyzing, setIsAnalyzing] = useState(false);
     const [analysisResult, setAnalysisResult] = useState<RefactorResult | null>(null);
@@ -111,6 +124,13 @@ export const RefactorPanel: React.FC<RefactorPanelProps> = ({
                         <Sparkles size={16} />
                         <span className="font-semibold text-sm">Agent</span>
                     </button>
+                    <button
+                        onClick={() => setActiveTab('duplicates')}
+                        className={`flex items-center space-x-2 pb-1 border-b-2 transition-colors ${activeTab === 'duplicates' ? 'border-green-400 text-green-400' : 'border-transparent text-gray-400 hover:text-white'}`}
+                    >
+                        <Copy size={16} />
+                        <span className="font-semibold text-sm">Duplicates</span>
+                    </button>
                     <button
                         onClick={() => setActiveTab('console')}
                         className={`flex items-center space-x-2 pb-1 border-b-2 transition-colors ${activeTab === 'console' ? 'border-yellow-400 text-yellow-400' : 'border-transparent text-gray-400 hover:text-white'}`}
@@ -233,6 +253,15 @@ export const RefactorPanel: React.FC<RefactorPanelProps> = ({
                     </>
                 )}
 
+                {activeTab === 'duplicates' && (
+                    <DuplicateFinder
+                        graphData={graphData}
+                        fileMap={fileMap}
+                        getModuleName={getModuleName}
+                        onApplyEdits={onApplyFileEdits}
+                    />
+                )}
+
                 {activeTab === 'console' && (
                     <div className="h-full flex flex-col">
                         <div className="flex items-center justify-between text-xs text-gray-400 mb-2">
@@ -244,7 +273,17 @@ export const RefactorPanel: React.FC<RefactorPanelProps> = ({
                                         <span>Initializing...</span>
                                     </div>
                                 )}
-                                {isPythonReady && <span className="text-green-400">Terminal Ready</span>}
+                                {isPythonReady && !isRunning && <span className="text-green-400">Ready</span>}
+                                {isRunning && (
+                                    <button
+                                        onClick={onCancelRun}
+                                        className="flex items-center space-x-1 px-2 py-0.5 rounded text-red-400 border border-red-400/30 bg-red-500/10 hover:bg-red-500/20 transition-colors"
+                                        title="Stop the running process"
+                                    >
+                                        <Square size={10} className="fill-current" />
+                                        <span>Stop</span>
+                                    </button>
+                                )}
                             </div>
                         </div>
                         <div
@@ -255,7 +294,16 @@ export const RefactorPanel: React.FC<RefactorPanelProps> = ({
                                 <span className="text-gray-600 italic">Run a Python node to see output here...</span>
                             ) : (
                                 outputLog.map((line, i) => (
-                                    <div key={i} className="mb-1 border-b border-white/5 pb-1 last:border-0">{line}</div>
+                                    line.kind === 'stdout' || line.kind === 'stderr' ? (
+                                        <div key={i} className={`whitespace-pre-wrap break-all ${line.kind === 'stderr' ? 'text-red-400' : ''}`}>{line.text || ' '}</div>
+                                    ) : (
+                                        <div
+                                            key={i}
+                                            className={`my-1 border-b border-white/5 pb-1 last:border-0 ${line.kind === 'exit' ? 'text-green-400' : line.kind === 'result' ? 'text-cyan-400' : line.kind === 'error' ? 'text-red-400' : 'text-gray-500'}`}
+                                        >
+                                            {line.text}
+                                        </div>
+                                    )
                                 ))
                             )}
                         </div>
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Bookmark, Play, Trash2 } from 'lucide-react';
+import { deleteArgPreset, getArgPresets, saveArgPreset } from '../argPresets';
+
+interface RunArgsBarProps {
+  nodeId: string;
+  onRun: (args: string) => void;
+}
+
+/**
+ * Argument input for running a single function, with presets saved per node.
+ */
+export const RunArgsBar: React.FC<RunArgsBarProps> = ({ nodeId, onRun }) => {
+  const [presets, setPresets] = useState<string[]>(() => getArgPresets(nodeId));
+  const [args, setArgs] = useState(() => presets[0] ?? '');
+
+  const run = () => onRun(args.trim());
+
+  return (
+    <div
+      className="flex items-center space-x-1"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <span className="font-mono text-[10px]" style={{ color: 'var(--vscode-descriptionForeground)' }}>(</span>
+      <input
+        type="text"
+        value={args}
+        onChange={(e) => setArgs(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter') run(); }}
+        placeholder="args, key=value"
+        list={`arg-presets-${nodeId}`}
+        className="w-32 px-1.5 py-0.5 rounded font-mono text-[10px] focus:outline-none"
+        style={{
+          background: 'var(--vscode-input-background)',
+          color: 'var(--vscode-input-foreground)',
+          border: '1px solid var(--vscode-input-border, var(--vscode-panel-border))'
+        }}
+        title="Python arguments, evaluated in the function's module"
+      />
+      <datalist id={`arg-presets-${nodeId}`}>
+        {presets.map(preset => <option key={preset} value={preset} />)}
+      </datalist>
+      <span className="font-mono text-[10px]" style={{ color: 'var(--vscode-descriptionForeground)' }}>)</span>
+      <button
+        onClick={() => setPresets(saveArgPreset(nodeId, args.trim()))}
+        className="p-1 rounded opacity-70 hover:opacity-100"
+        style={{ color: 'var(--vscode-descriptionForeground)' }}
+        title="Save as preset"
+      >
+        <Bookmark size={10} />
+      </button>
+      {presets.includes(args.trim()) && (
+        <button
+          onClick={() => setPresets(deleteArgPreset(nodeId, args.trim()))}
+          className="p-1 rounded opacity-70 hover:opacity-100"
+          style={{ color: 'var(--vscode-descriptionForeground)' }}
+          title="Delete preset"
+        >
+          <Trash2 size={10} />
+        </button>
+      )}
+      <button
+        onClick={run}
+        className="flex items-center space-x-1 px-2 py-1 rounded text-[10px] transition-colors"
+        style={{ background: 'color-mix(in srgb, var(--vscode-terminal-ansiGreen) 15%, transparent)', color: 'var(--vscode-terminal-ansiGreen)', border: '1px solid color-mix(in srgb, var(--vscode-terminal-ansiGreen) 30%, transparent)' }}
+        title="Run function"
+      >
+        <Play size={10} fill="currentColor" />
+        <span>RUN</span>
+      </button>
+    </div>
+  );
+};
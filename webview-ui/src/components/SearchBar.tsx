@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { Search, X, Sparkles, Loader2 } from 'lucide-react';
+import { NodeData } from '../types';
+
+export type SearchMode = 'text' | 'semantic';
+
+export interface SearchResult {
+    node: NodeData;
+    score?: number; // Similarity, for semantic results
+}
+
+interface SearchBarProps {
+    query: string;
+    mode: SearchMode;
+    results: SearchResult[];
+    isSearching?: boolean;
+    canSearchSemantically: boolean;
+    onQueryChange: (query: string) => void;
+    onModeChange: (mode: SearchMode) => void;
+    onSelectResult: (node: NodeData) => void;
+}
+
+/**
+ * Node search with a results dropdown: ArrowUp/ArrowDown move through the results,
+ * Enter selects one, Escape closes the list (or clears the query when it is closed).
+ */
+export const SearchBar: React.FC<SearchBarProps> = ({
+    query,
+    mode,
+    results,
+    isSearching,
+    canSearchSemantically,
+    onQueryChange,
+    onModeChange,
+    onSelectResult
+}) => {
+    const [activeIndex, setActiveIndex] = useState(0);
+    const [isOpen, setIsOpen] = useState(false);
+
+    useEffect(() => setActiveIndex(0), [results]);
+
+    const showResults = isOpen && query.length > 0 && (results.length > 0 || isSearching);
+
+    const select = (result: SearchResult | undefined) => {
+        if (!result) return;
+        onSelectResult(result.node);
+        setIsOpen(false);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setIsOpen(true);
+            setActiveIndex(i => Math.min(i + 1, results.length - 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setActiveIndex(i => Math.max(i - 1, 0));
+        } else if (e.key === 'Enter') {
+            select(results[activeIndex]);
+        } else if (e.key === 'Escape') {
+            if (showResults) setIsOpen(false);
+            else onQueryChange('');
+        }
+    };
+
+    return (
+        <div className="relative group">
+            <Search className="absolute left-3 top-[18px] transform -translate-y-1/2 text-gray-500 group-focus-within:text-primary transition-colors" size={16} />
+            <input
+                type="text"
+                value={query}
+                onChange={(e) => { onQueryChange(e.target.value); setIsOpen(true); }}
+                onFocus={() => setIsOpen(true)}
+                onBlur={() => setIsOpen(false)}
+                onKeyDown={handleKeyDown}
+                placeholder={mode === 'semantic' ? 'Describe what the code does...' : 'Search nodes...'}
+                className="w-full bg-surface/50 backdrop-blur-md border border-white/10 rounded-full py-2 pl-10 pr-16 text-sm focus:outline-none focus:ring-1 focus:ring-primary focus:bg-surface/80 transition-all shadow-xl"
+            />
+            <div className="absolute right-3 top-[18px] transform -translate-y-1/2 flex items-center space-x-1.5">
+                {query && (
+                    <button
+                        onClick={() => onQueryChange('')}
+                        className="text-gray-500 hover:text-white transition-colors"
+                    >
+                        <X size={14} />
+                    </button>
+                )}
+                {canSearchSemantically && (
+                    <button
+                        onClick={() => onModeChange(mode === 'semantic' ? 'text' : 'semantic')}
+                        className="transition-colors"
+                        style={{ color: mode === 'semantic' ? 'var(--vscode-textLink-foreground)' : 'var(--vscode-descriptionForeground)' }}
+                        title={mode === 'semantic' ? 'Semantic search (by meaning) - click for name search' : 'Name search - click for semantic search (by meaning)'}
+                    >
+                        <Sparkles size={14} />
+                    </button>
+                )}
+            </div>
+
+            {showResults && (
+                <div
+                    className="mt-1.5 rounded-lg shadow-2xl overflow-hidden max-h-72 overflow-y-auto"
+                    style={{ background: 'var(--vscode-sideBar-background)', border: '1px solid var(--vscode-panel-border)' }}
+                >
+                    {isSearching && results.length === 0 && (
+                        <div className="flex items-center space-x-2 px-3 py-2 text-xs" style={{ color: 'var(--vscode-descriptionForeground)' }}>
+                            <Loader2 size={12} className="animate-spin" />
+                            <span>Searching...</span>
+                        </div>
+                    )}
+                    {results.map((result, i) => (
+                        <div
+                            key={result.node.id}
+                            // mousedown rather than click so the input does not blur first
+                            onMouseDown={(e) => { e.preventDefault(); select(result); }}
+                            onMouseEnter={() => setActiveIndex(i)}
+                            className="flex items-center justify-between px-3 py-1.5 text-xs cursor-pointer"
+                            style={{
+                                background: i === activeIndex ? 'var(--vscode-list-activeSelectionBackground)' : 'transparent',
+                                color: i === activeIndex ? 'var(--vscode-list-activeSelectionForeground)' : 'var(--vscode-editor-foreground)'
+                            }}
+                        >
+                            <div className="flex flex-col min-w-0">
+                                <span className="truncate font-medium">{result.node.label}</span>
+                                {result.node.filePath && (
+                                    <span className="truncate text-[10px] opacity-60">{result.node.filePath}</span>
+                                )}
+                            </div>
+                            {result.score !== undefined && (
+                                <span className="ml-2 shrink-0 font-mono text-[10px]" style={{ color: 'var(--vscode-textLink-foreground)' }}>
+                                    {result.score.toFixed(2)}
+                                </span>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -2,19 +2,22 @@ import React, { useState, useRef, useEffect } from 'react';
 import { 
   Files, Search, Settings,
   ChevronRight, ChevronDown, Folder, FileCode, FileJson, MoreHorizontal, FileText, Upload, Plus,
-  Box, PanelLeftClose
+  Box, Boxes, SquareFunction, PanelLeftClose, ExternalLink
 } from 'lucide-react';
 import { FileSystemItem } from '../types';
 
 interface SidebarProps {
   fileTree: FileSystemItem[];
   onFileSelect: (fileId: string) => void;
+  onFolderToggle?: (folderId: string, isOpen: boolean) => void;
   onFilesUploaded: (files: FileList) => void;
   selectedId: string | null;
   onToggle: () => void;
+  dirtyFiles?: Set<string>; // Workspace paths with edits not yet saved to disk
+  onReveal?: (item: FileSystemItem) => void; // Opens the file or symbol in a VS Code editor
 }
 
-export const Sidebar: React.FC<SidebarProps> = ({ fileTree, onFileSelect, onFilesUploaded, selectedId, onToggle }) => {
+export const Sidebar: React.FC<SidebarProps> = ({ fileTree, onFileSelect, onFolderToggle, onFilesUploaded, selectedId, onToggle, dirtyFiles, onReveal }) => {
   const [activeActivity, setActiveActivity] = useState('explorer');
   const [sidebarSearchQuery, setSidebarSearchQuery] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -141,7 +144,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ fileTree, onFileSelect, onFile
             {/* File Tree */}
             <div className="flex-1 overflow-y-auto pt-2">
                {fileTree.map(item => (
-                 <FileTreeItem key={item.id} item={item} level={0} onSelect={onFileSelect} selectedId={selectedId} />
+                 <FileTreeItem key={item.id} item={item} level={0} onSelect={onFileSelect} onFolderToggle={onFolderToggle} selectedId={selectedId} dirtyFiles={dirtyFiles} onReveal={onReveal} />
                ))}
             </div>
           </>
@@ -188,7 +191,15 @@ export const Sidebar: React.FC<SidebarProps> = ({ fileTree, onFileSelect, onFile
 };
 
 // Recursive Tree Component
-const FileTreeItem: React.FC<{ item: FileSystemItem, level: number, onSelect: (id: string) => void, selectedId: string | null }> = ({ item, level, onSelect, selectedId }) => {
+const FileTreeItem: React.FC<{
+  item: FileSystemItem,
+  level: number,
+  onSelect: (id: string) => void,
+  onFolderToggle?: (folderId: string, isOpen: boolean) => void,
+  selectedId: string | null,
+  dirtyFiles?: Set<string>,
+  onReveal?: (item: FileSystemItem) => void
+}> = ({ item, level, onSelect, onFolderToggle, selectedId, dirtyFiles, onReveal }) => {
   const [isOpen, setIsOpen] = useState(item.isOpen || false);
   const hasChildren = item.children && item.children.length > 0;
   
@@ -200,12 +211,14 @@ const FileTreeItem: React.FC<{ item: FileSystemItem, level: number, onSelect: (i
     e.stopPropagation();
     if (item.type === 'folder' || hasChildren) {
       setIsOpen(!isOpen);
+      if (item.type === 'folder') onFolderToggle?.(item.id, !isOpen);
     } 
     onSelect(item.id);
   };
 
   const paddingLeft = level * 12 + 12;
   const isSelected = item.id === selectedId;
+  const isDirty = item.type === 'file' && !!item.path && !!dirtyFiles?.has(item.path);
 
   return (
     <div>
@@ -233,6 +246,10 @@ const FileTreeItem: React.FC<{ item: FileSystemItem, level: number, onSelect: (i
                 <Folder size={14} className={`mr-2 ${isSelected ? 'text-blue-300' : 'text-blue-400'}`} />
             ) : item.type === 'file' ? (
                 <FileIcon language={item.language} selected={isSelected} />
+            ) : item.type === 'class' ? (
+                <Boxes size={12} className={`mr-2 ${isSelected ? 'text-violet-300' : 'text-violet-400'}`} />
+            ) : item.type === 'method' ? (
+                <SquareFunction size={12} className={`mr-2 ${isSelected ? 'text-cyan-300' : 'text-cyan-400'}`} />
             ) : (
                 <Box size={12} className={`mr-2 ${isSelected ? 'text-yellow-300' : 'text-yellow-500'}`} />
             )}
@@ -241,16 +258,44 @@ const FileTreeItem: React.FC<{ item: FileSystemItem, level: number, onSelect: (i
          <span className={`text-[13px] truncate z-10 ${item.type === 'folder' ? (isSelected ? 'font-semibold text-white' : 'font-medium text-gray-300') : ''}`}>
             {item.name}
          </span>
+
+         {isDirty && (
+             <span
+               className="ml-auto mr-3 w-2 h-2 rounded-full shrink-0 z-10"
+               style={{ background: 'var(--vscode-editorGutter-modifiedBackground, var(--vscode-textLink-foreground))' }}
+               title="Unsaved changes"
+             />
+         )}
          
+         {item.type === 'folder' && !!item.functionCount && (
+             <span
+               className="ml-auto mr-2 px-1.5 rounded-full text-[10px] font-mono z-10"
+               style={{ background: 'var(--vscode-badge-background)', color: 'var(--vscode-badge-foreground)' }}
+               title={`${item.functionCount} function${item.functionCount === 1 ? '' : 's'}`}
+             >
+               {item.functionCount}
+             </span>
+         )}
+
          {item.type !== 'folder' && item.type !== 'file' && (
-             <span className={`ml-auto mr-2 text-[10px] opacity-0 group-hover:opacity-100 font-mono z-10 ${isSelected ? 'text-blue-200 opacity-100' : 'text-gray-600'}`}>fn</span>
+             <span className={`ml-auto mr-2 text-[10px] opacity-0 group-hover:opacity-100 font-mono z-10 ${isSelected ? 'text-blue-200 opacity-100' : 'text-gray-600'}`}>{item.type === 'class' ? 'cls' : item.type === 'method' ? 'method' : 'fn'}</span>
+         )}
+
+         {item.type !== 'folder' && onReveal && (
+             <button
+               onClick={(e) => { e.stopPropagation(); onReveal(item); }}
+               className={`${item.type === 'file' && !isDirty ? 'ml-auto ' : ''}mr-2 p-0.5 rounded opacity-0 group-hover:opacity-100 hover:bg-surfaceHighlight/50 z-10 shrink-0`}
+               title="Reveal in Editor"
+             >
+               <ExternalLink size={12} />
+             </button>
          )}
       </div>
       
       {hasChildren && isOpen && (
         <div>
           {item.children!.map(child => (
-            <FileTreeItem key={child.id} item={child} level={level + 1} onSelect={onSelect} selectedId={selectedId} />
+            <FileTreeItem key={child.id} item={child} level={level + 1} onSelect={onSelect} onFolderToggle={onFolderToggle} selectedId={selectedId} dirtyFiles={dirtyFiles} onReveal={onReveal} />
           ))}
         </div>
       )}
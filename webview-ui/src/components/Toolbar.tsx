@@ -1,5 +1,6 @@
 import React from 'react';
-import { MousePointer2, Network, Layout, Edit3, Loader2, Sparkles, RefreshCw } from 'lucide-react';
+import { MousePointer2, Network, Layout, Edit3, Loader2, Sparkles, RefreshCw, Terminal, X, Save, LocateFixed } from 'lucide-react';
+import { ActiveInterpreter } from '../vscodeApi';
 
 export type ViewMode = 'graph' | 'editor';
 export type GraphLayout = 'semantic' | 'connection' | 'flow';
@@ -18,7 +19,16 @@ interface ToolbarProps {
     onToggleFilter: (filter: keyof EdgeFilters) => void;
     onRecalculateSemantics: () => void;
     pendingUpdates: number;
-    isLoading?: boolean;
+    embeddingProgress?: { done: number; failed: number; total: number } | null;
+    similarityThreshold: number;
+    onSimilarityThresholdChange: (threshold: number) => void;
+    onCancelEmbeddings?: () => void;
+    interpreter?: ActiveInterpreter | null;
+    onSelectInterpreter?: () => void;
+    unsavedCount?: number;
+    onSaveAll?: () => void;
+    followEditor?: boolean;
+    onToggleFollowEditor?: () => void;
 }
 
 export const Toolbar: React.FC<ToolbarProps> = ({
@@ -30,7 +40,16 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     onToggleFilter,
     onRecalculateSemantics,
     pendingUpdates,
-    isLoading
+    embeddingProgress,
+    onCancelEmbeddings,
+    similarityThreshold,
+    onSimilarityThresholdChange,
+    interpreter,
+    onSelectInterpreter,
+    unsavedCount = 0,
+    onSaveAll,
+    followEditor = false,
+    onToggleFollowEditor
 }) => {
     return (
         <div className="absolute top-4 left-1/2 transform -translate-x-1/2 flex flex-col items-center gap-2 z-50">
@@ -64,6 +83,30 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                     active={currentView === 'editor'}
                     onClick={() => onViewChange('editor')}
                 />
+
+                {interpreter && (
+                    <button
+                        onClick={onSelectInterpreter}
+                        className="flex items-center space-x-1.5 ml-2 pl-3 pr-3 py-1.5 text-[11px] font-mono transition-colors max-w-[180px]"
+                        style={{ borderLeft: '1px solid var(--vscode-panel-border)', color: 'var(--vscode-descriptionForeground)' }}
+                        title={`Python interpreter: ${interpreter.pythonPath}\nClick to change`}
+                    >
+                        <Terminal size={12} className="shrink-0" />
+                        <span className="truncate">{interpreter.name}</span>
+                    </button>
+                )}
+
+                {unsavedCount > 0 && onSaveAll && (
+                    <button
+                        onClick={onSaveAll}
+                        className="flex items-center space-x-1.5 ml-1 px-3 py-1.5 rounded-full text-[11px] font-medium transition-colors"
+                        style={{ background: 'var(--vscode-button-background)', color: 'var(--vscode-button-foreground)' }}
+                        title="Save all files edited in the graph (Ctrl+K S)"
+                    >
+                        <Save size={12} />
+                        <span>Save ({unsavedCount})</span>
+                    </button>
+                )}
             </div>
 
             {/* Edge Filters & AI Trigger (Visible only in Graph Mode) */}
@@ -84,38 +127,77 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                             checked={edgeFilters.showSemantic}
                             onChange={() => onToggleFilter('showSemantic')}
                         />
+
+                        {edgeFilters.showSemantic && (
+                            <label className="flex items-center space-x-2" title="Minimum similarity for a semantic edge">
+                                <input
+                                    type="range"
+                                    min={0.3}
+                                    max={0.95}
+                                    step={0.01}
+                                    value={similarityThreshold}
+                                    onChange={(e) => onSimilarityThresholdChange(Number(e.target.value))}
+                                    className="w-20 h-1 cursor-pointer"
+                                    style={{ accentColor: 'var(--vscode-textLink-foreground)' }}
+                                />
+                                <span className="text-[11px] font-mono w-7" style={{ color: 'var(--vscode-descriptionForeground)' }}>
+                                    {similarityThreshold.toFixed(2)}
+                                </span>
+                            </label>
+                        )}
                     </div>
 
-                    {/* Manual Recalculate Button - Only shows when needed or loading */}
-                    {(pendingUpdates > 0 || isLoading) && (
+                    {onToggleFollowEditor && (
+                        <button
+                            onClick={onToggleFollowEditor}
+                            className="flex items-center space-x-1.5 px-3 py-1.5 rounded-full text-xs font-medium border shadow-lg transition-all duration-300"
+                            style={{
+                                background: followEditor ? 'color-mix(in srgb, var(--vscode-focusBorder) 20%, transparent)' : 'color-mix(in srgb, var(--vscode-editor-background) 80%, transparent)',
+                                borderColor: followEditor ? 'color-mix(in srgb, var(--vscode-focusBorder) 40%, transparent)' : 'var(--vscode-panel-border)',
+                                color: followEditor ? 'var(--vscode-focusBorder)' : 'var(--vscode-descriptionForeground)'
+                            }}
+                            title="Select the function at the editor cursor as you move through the code"
+                        >
+                            <LocateFixed size={12} />
+                            <span>Follow Editor</span>
+                        </button>
+                    )}
+
+                    {/* Embedding progress with cancel, or the manual recalculate button when updates are pending */}
+                    {embeddingProgress ? (
+                        <div
+                            className="flex items-center space-x-2 pl-3 pr-1.5 py-1 rounded-full text-xs font-medium border shadow-lg"
+                            style={{
+                                background: 'color-mix(in srgb, var(--vscode-textLink-foreground) 15%, transparent)',
+                                borderColor: 'color-mix(in srgb, var(--vscode-textLink-foreground) 30%, transparent)',
+                                color: 'var(--vscode-textLink-foreground)'
+                            }}
+                        >
+                            <Loader2 size={12} className="animate-spin" />
+                            <span>Embedding {embeddingProgress.done} / {embeddingProgress.total}</span>
+                            {embeddingProgress.failed > 0 && (
+                                <span style={{ color: 'var(--vscode-errorForeground)' }}>{embeddingProgress.failed} failed</span>
+                            )}
+                            <button
+                                onClick={onCancelEmbeddings}
+                                className="p-0.5 rounded-full opacity-70 hover:opacity-100"
+                                title="Cancel"
+                            >
+                                <X size={12} />
+                            </button>
+                        </div>
+                    ) : pendingUpdates > 0 && (
                         <button
                             onClick={onRecalculateSemantics}
-                            disabled={isLoading}
                             className="flex items-center space-x-2 px-3 py-1.5 rounded-full text-xs font-medium border shadow-lg transition-all duration-300"
                             style={{
-                                background: isLoading
-                                    ? 'color-mix(in srgb, var(--vscode-textLink-foreground) 15%, transparent)'
-                                    : 'var(--vscode-button-background)',
-                                borderColor: isLoading
-                                    ? 'color-mix(in srgb, var(--vscode-textLink-foreground) 30%, transparent)'
-                                    : 'transparent',
-                                color: isLoading
-                                    ? 'var(--vscode-textLink-foreground)'
-                                    : 'var(--vscode-button-foreground)',
-                                cursor: isLoading ? 'not-allowed' : 'pointer'
+                                background: 'var(--vscode-button-background)',
+                                borderColor: 'transparent',
+                                color: 'var(--vscode-button-foreground)'
                             }}
                         >
-                            {isLoading ? (
-                                <>
-                                    <Loader2 size={12} className="animate-spin" />
-                                    <span>Updating Brain...</span>
-                                </>
-                            ) : (
-                                <>
-                                    <Sparkles size={12} className="fill-current" />
-                                    <span>Update Graph ({pendingUpdates})</span>
-                                </>
-                            )}
+                            <Sparkles size={12} className="fill-current" />
+                            <span>Update Graph ({pendingUpdates})</span>
                         </button>
                     )}
                 </div>
@@ -1,5 +1,5 @@
 
-import { EdgeType, GraphData, NodeType, NodeData, LinkData, FileSystemItem, FileMap } from './types';
+import { EdgeType, GraphData, NodeType, NodeData, LinkData, FileSystemItem, FileMap, PythonAnalysis, PythonModuleAnalysis, PythonCallSite, PythonImport } from './types';
 
 // --- Initial Content ---
 
@@ -177,124 +177,421 @@ export const INITIAL_FILE_TREE: FileSystemItem[] = [
 
 // --- Dynamic Graph Generation Logic ---
 
+interface ExtractedSymbol {
+    kind: 'class' | 'function' | 'method';
+    qualname: string; // e.g. "Cls.method" when coming from the AST analyzer
+    parent: string | null; // Qualname of the enclosing class/function, null at module level
+    code: string;
+    startLine: number;
+    endLine: number;
+    signature?: string;
+    decorators?: string[];
+    bases?: Array<{ name: string; target: string | null; module: string | null }>;
+    calls?: PythonCallSite[]; // Only available from the AST analyzer
+}
+
 /**
- * Parses code strings to build the Knowledge Graph (Nodes & Edges).
- * Supports Python function extraction. Fallbacks to simple file nodes for others.
+ * Fallback parser used when no AST analysis is available (e.g. outside VSCode).
+ * Only recognises top-level `def` blocks.
+ */
+function extractFunctionsWithRegex(code: string): ExtractedSymbol[] {
+    const functions: ExtractedSymbol[] = [];
+    const lines = code.split('\n');
+    const functionRegex = /^def\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*\(([^)]*)\):/;
+
+    for (let i = 0; i < lines.length; i++) {
+        const match = lines[i].match(functionRegex);
+        if (match) {
+            // Extract body
+            let body = [];
+            body.push(lines[i]);
+            let j = i + 1;
+            while (j < lines.length) {
+                const line = lines[j];
+                if (line.trim() === '') {
+                    body.push(line);
+                    j++;
+                    continue;
+                }
+                if (!line.startsWith(' ') && !line.startsWith('\t') && !line.startsWith('#') && !line.startsWith('@')) {
+                    break;
+                }
+                body.push(line);
+                j++;
+            }
+
+            functions.push({
+                kind: 'function',
+                qualname: match[1],
+                parent: null,
+                code: body.join('\n'),
+                startLine: i + 1,
+                endLine: j
+            });
+        }
+    }
+
+    return functions;
+}
+
+/**
+ * Fallback for module imports when no AST analysis is available. Only resolves
+ * plain `import a.b` / `from a.b import c` statements against the given module paths.
+ */
+function extractImportsWithRegex(code: string, modulePaths: string[]): PythonImport[] {
+    const imports: PythonImport[] = [];
+    const importRegex = /^(?:from\s+([\w.]+)\s+import\b|import\s+([\w.]+))/;
+
+    code.split('\n').forEach((line, i) => {
+        const match = line.match(importRegex);
+        if (!match) return;
+        const module = match[1] || match[2];
+        const relative = module.replace(/\./g, '/');
+        const path = modulePaths.find(p =>
+            [`${relative}.py`, `${relative}/__init__.py`].some(c => p === c || p.endsWith(`/${c}`))
+        );
+        if (path) {
+            imports.push({ module, line: i + 1, kind: 'internal', path });
+        }
+    });
+
+    return imports;
+}
+
+/**
+ * Slices class and function sources out of the file using the exact line ranges reported by the analyzer.
+ */
+function extractSymbolsFromAnalysis(code: string, analysis: PythonModuleAnalysis): ExtractedSymbol[] {
+    const lines = code.split('\n');
+    const slice = (startLine: number, endLine: number) => lines.slice(startLine - 1, endLine).join('\n');
+
+    const classes: ExtractedSymbol[] = analysis.classes.map(cls => ({
+        kind: 'class',
+        qualname: cls.qualname,
+        parent: cls.parent,
+        code: slice(cls.startLine, cls.endLine),
+        startLine: cls.startLine,
+        endLine: cls.endLine,
+        decorators: cls.decorators,
+        bases: cls.bases
+    }));
+
+    const functions: ExtractedSymbol[] = analysis.functions.map(fn => ({
+        kind: fn.kind,
+        qualname: fn.qualname,
+        parent: fn.parent,
+        code: slice(fn.startLine, fn.endLine),
+        startLine: fn.startLine,
+        endLine: fn.endLine,
+        signature: fn.signature,
+        decorators: fn.decorators,
+        calls: fn.calls
+    }));
+
+    // Parents always start before their children, so sorting keeps them first
+    return [...classes, ...functions].sort((a, b) => a.startLine - b.startLine);
+}
+
+/**
+ * Cyclomatic complexity estimate: one plus the branch points in the code.
+ */
+function estimateComplexity(code: string): number {
+    const branches = code.match(/\b(if|elif|for|while|except|and|or|case)\b/g);
+    return 1 + (branches?.length ?? 0);
+}
+
+/**
+ * Offset in [-spread / 2, spread / 2) derived from an id, so a node starts at the same spot
+ * near its parent every time the graph is built.
+ */
+export function stableJitter(id: string, spread: number): [number, number] {
+    let hash = 2166136261;
+    for (let i = 0; i < id.length; i++) {
+        hash = Math.imul(hash ^ id.charCodeAt(i), 16777619);
+    }
+    const dx = ((hash >>> 0) & 0xffff) / 0x10000;
+    const dy = ((hash >>> 16) & 0xffff) / 0x10000;
+    return [(dx - 0.5) * spread, (dy - 0.5) * spread];
+}
+
+type BaseRef = { name: string; target: string | null; module: string | null };
+
+/**
+ * Nodes and file-local edges of one file, before linking against the rest of the workspace.
  */
-export function generateGraphFromFiles(files: FileMap): GraphData {
+export interface FileFragment {
+    nodes: NodeData[];
+    links: LinkData[]; // BELONGS_TO, and INHERITS from bases in the same file
+    imports: PythonImport[];
+    moduleSymbols: Map<string, string>; // qualname -> nodeId
+    definedSymbols: Array<{ name: string; id: string }>; // Bare names of functions and classes, not methods
+    resolvedCalls: Map<string, PythonCallSite[]>; // nodeId -> analyzer call sites
+    pendingBases: Array<{ classId: string; base: BaseRef }>; // Bases from other modules, or unresolved
+}
+
+// Fragments by file path, with what they were built from; unchanged files are not parsed again
+export type GraphFragmentCache = Map<string, { code: string; analysis?: PythonModuleAnalysis; modulePathsKey?: string; fragment: FileFragment }>;
+
+// Radial Layout Config
+const ORBIT_RADIUS = 350;
+
+function buildFileFragment(
+    filePath: string,
+    code: string,
+    moduleAnalysis: PythonModuleAnalysis | undefined,
+    modulePaths: string[],
+    fileIndex: number,
+    totalFiles: number
+): FileFragment {
+    const fileId = `file-${filePath}`;
+    const filename = filePath.split('/').pop() || filePath;
+    const isPython = filename.endsWith('.py');
     const nodes: NodeData[] = [];
     const links: LinkData[] = [];
-    
-    const definedFunctions = new Map<string, string>(); // funcName -> nodeId
+    const moduleSymbols = new Map<string, string>();
+    const definedSymbols: FileFragment['definedSymbols'] = [];
+    const resolvedCalls = new Map<string, PythonCallSite[]>();
+    const pendingBases: FileFragment['pendingBases'] = [];
+
+    // --- Calculate Initial Position (Radial/Polar) ---
+    // 'main.py' or 'index' usually sits in the center (0,0)
+    // Others sit on an orbit
+    let initialX = 0;
+    let initialY = 0;
+
+    if (filename.includes('main') || filename.includes('index')) {
+        initialX = 0;
+        initialY = 0;
+    } else {
+        // Distribute others in a circle
+        const angle = (fileIndex / totalFiles) * 2 * Math.PI;
+        initialX = Math.cos(angle) * ORBIT_RADIUS;
+        initialY = Math.sin(angle) * ORBIT_RADIUS;
+    }
 
+    const hasAnalysis = !!moduleAnalysis && !moduleAnalysis.error;
+    const imports = hasAnalysis ? moduleAnalysis.imports : isPython ? extractImportsWithRegex(code, modulePaths) : [];
+
+    // Module/File Node
+    nodes.push({
+        id: fileId,
+        type: isPython ? NodeType.MODULE : NodeType.FILE,
+        label: filename,
+        filePath,
+        language: filename.endsWith('.py') ? 'python' : filename.endsWith('.md') ? 'markdown' : filename.endsWith('.json') ? 'json' : 'text',
+        x: initialX,
+        y: initialY,
+        code: code,
+        complexity: isPython ? 10 : 0,
+        externalImports: imports
+            .filter(imp => imp.kind !== 'internal')
+            .map(imp => ({ module: imp.module, kind: imp.kind as 'stdlib' | 'external' }))
+    });
+
+    if (isPython) {
+        const symbols = hasAnalysis
+            ? extractSymbolsFromAnalysis(code, moduleAnalysis)
+            : extractFunctionsWithRegex(code);
+
+        symbols.forEach(symbol => {
+            const symbolName = symbol.qualname;
+            const symbolId = `${symbol.kind === 'class' ? 'cls' : 'fn'}-${filePath}::${symbolName}`;
+            const parentId = (symbol.parent && moduleSymbols.get(symbol.parent)) || fileId;
+            moduleSymbols.set(symbolName, symbolId);
+            if (symbol.kind !== 'method') {
+                definedSymbols.push({ name: symbolName.split('.').pop()!, id: symbolId });
+            }
+            if (symbol.calls) {
+                resolvedCalls.set(symbolId, symbol.calls);
+            }
+
+            // Note: Removed automatic test code appending to ensure clean 2-way sync with files.
+
+            // Place symbol nodes NEAR their parent file node to start
+            // The physics engine will sort them out, but this prevents a big explosion from 0,0
+            const [jitterX, jitterY] = stableJitter(symbolId, 80);
+            nodes.push({
+                id: symbolId,
+                type: symbol.kind === 'class' ? NodeType.CLASS : symbol.kind === 'method' ? NodeType.METHOD : NodeType.FUNCTION,
+                label: symbolName,
+                language: 'python',
+                code: symbol.code,
+                filePath,
+                parentId,
+                complexity: symbol.kind === 'class' ? 10 : estimateComplexity(symbol.code),
+                metadata: {
+                    status: 'stable',
+                    why: symbol.kind === 'class' ? 'Class Definition' : symbolName.includes('recursive') ? 'Recursive Implementation' : 'Logic Block'
+                },
+                signature: symbol.signature,
+                decorators: symbol.decorators,
+                startLine: symbol.startLine,
+                endLine: symbol.endLine,
+                x: initialX + jitterX,
+                y: initialY + jitterY
+            });
+
+            links.push({
+                source: symbolId,
+                target: parentId,
+                type: EdgeType.BELONGS_TO
+            });
+
+            symbol.bases?.forEach(base => {
+                const baseId = base.target && !base.module ? moduleSymbols.get(base.target) : undefined;
+                if (baseId) {
+                    links.push({ source: symbolId, target: baseId, type: EdgeType.INHERITS });
+                } else {
+                    pendingBases.push({ classId: symbolId, base });
+                }
+            });
+        });
+    }
+
+    return { nodes, links, imports, moduleSymbols, definedSymbols, resolvedCalls, pendingBases };
+}
+
+/**
+ * Parses code strings to build the Knowledge Graph (Nodes & Edges).
+ * Python modules use the AST analysis when it is provided for them, and the regex parser otherwise.
+ * Fallbacks to simple file nodes for others.
+ * With a `cache`, only files whose source or analysis changed are parsed again; the edges
+ * between files are always relinked, since they depend on every module.
+ */
+export function generateGraphFromFiles(files: FileMap, analysis: PythonAnalysis = {}, cache?: GraphFragmentCache): GraphData {
     const fileEntries = Object.entries(files);
     const totalFiles = fileEntries.length;
-    
-    // Radial Layout Config
-    const ORBIT_RADIUS = 350;
-
-    // 1. Pass: Create Nodes (Modules and Functions)
-    fileEntries.forEach(([filename, code], fileIndex) => {
-        const fileId = `file-${filename}`;
-        const isPython = filename.endsWith('.py');
-        
-        // --- Calculate Initial Position (Radial/Polar) ---
-        // 'main.py' or 'index' usually sits in the center (0,0)
-        // Others sit on an orbit
-        let initialX = 0;
-        let initialY = 0;
-
-        if (filename.includes('main') || filename.includes('index')) {
-            initialX = 0;
-            initialY = 0;
-        } else {
-            // Distribute others in a circle
-            const angle = (fileIndex / totalFiles) * 2 * Math.PI;
-            initialX = Math.cos(angle) * ORBIT_RADIUS;
-            initialY = Math.sin(angle) * ORBIT_RADIUS;
+    const modulePaths = fileEntries.map(([filePath]) => filePath).filter(p => p.endsWith('.py'));
+    const modulePathsKey = modulePaths.join('\n');
+
+    // 1. Pass: Create Nodes (Modules, Classes and Functions) per file
+    const fragments = new Map<string, FileFragment>();
+    fileEntries.forEach(([filePath, code], fileIndex) => {
+        const moduleAnalysis = filePath.endsWith('.py') ? analysis[filePath] : undefined;
+        // The regex import fallback resolves against the module list; analyzed files do not depend on it
+        const usesModulePaths = filePath.endsWith('.py') && (!moduleAnalysis || !!moduleAnalysis.error);
+        const cached = cache?.get(filePath);
+        if (cached && cached.code === code && cached.analysis === moduleAnalysis
+            && (!usesModulePaths || cached.modulePathsKey === modulePathsKey)) {
+            fragments.set(filePath, cached.fragment);
+            return;
         }
 
-        // Module/File Node
-        nodes.push({
-            id: fileId,
-            type: isPython ? NodeType.MODULE : NodeType.FILE,
-            label: filename,
-            language: filename.endsWith('.py') ? 'python' : filename.endsWith('.md') ? 'markdown' : filename.endsWith('.json') ? 'json' : 'text',
-            x: initialX, 
-            y: initialY,
-            code: code,
-            complexity: isPython ? 10 : 0
+        const fragment = buildFileFragment(filePath, code, moduleAnalysis, modulePaths, fileIndex, totalFiles);
+        fragments.set(filePath, fragment);
+        cache?.set(filePath, { code, analysis: moduleAnalysis, modulePathsKey: usesModulePaths ? modulePathsKey : undefined, fragment });
+    });
+    cache?.forEach((_, filePath) => {
+        if (!fragments.has(filePath)) cache.delete(filePath);
+    });
+
+    return linkFragments(fragments, analysis);
+}
+
+/**
+ * Joins file fragments into the graph: imports, inheritance and calls between modules.
+ */
+function linkFragments(fragments: Map<string, FileFragment>, analysis: PythonAnalysis): GraphData {
+    const nodes: NodeData[] = [];
+    const links: LinkData[] = [];
+
+    const definedSymbols = new Map<string, string[]>(); // bare name -> nodeIds (functions and classes, not methods)
+    const symbolFiles = new Map<string, string>(); // nodeId -> filePath
+    const moduleSymbolsByPath = new Map<string, Map<string, string>>(); // filePath -> qualname -> nodeId
+
+    fragments.forEach((fragment, filePath) => {
+        nodes.push(...fragment.nodes);
+        links.push(...fragment.links);
+        moduleSymbolsByPath.set(filePath, fragment.moduleSymbols);
+        fragment.moduleSymbols.forEach(id => symbolFiles.set(id, filePath));
+        fragment.definedSymbols.forEach(({ name, id }) => {
+            definedSymbols.set(name, [...(definedSymbols.get(name) || []), id]);
         });
+    });
 
-        if (isPython) {
-            const lines = code.split('\n');
-            const functionRegex = /^def\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*\(([^)]*)\):/;
-
-            for (let i = 0; i < lines.length; i++) {
-                const match = lines[i].match(functionRegex);
-                if (match) {
-                    const funcName = match[1];
-                    const funcId = `fn-${funcName}`;
-                    definedFunctions.set(funcName, funcId);
-
-                    // Extract body
-                    let body = [];
-                    body.push(lines[i]);
-                    let j = i + 1;
-                    while (j < lines.length) {
-                        const line = lines[j];
-                        if (line.trim() === '') {
-                            body.push(line);
-                            j++;
-                            continue;
-                        }
-                        if (!line.startsWith(' ') && !line.startsWith('\t') && !line.startsWith('#') && !line.startsWith('@')) {
-                            break;
-                        }
-                        body.push(line);
-                        j++;
-                    }
-
-                    let fullCode = body.join('\n');
-                    
-                    // Note: Removed automatic test code appending to ensure clean 2-way sync with files.
-
-                    // Place function nodes randomly NEAR their parent file node to start
-                    // The physics engine will sort them out, but this prevents a big explosion from 0,0
-                    const jitter = 80;
-                    nodes.push({
-                        id: funcId,
-                        type: NodeType.FUNCTION,
-                        label: funcName,
-                        language: 'python',
-                        code: fullCode,
-                        complexity: Math.floor(Math.random() * 20) + 1,
-                        metadata: {
-                            status: 'stable',
-                            why: funcName.includes('recursive') ? 'Recursive Implementation' : 'Logic Block'
-                        },
-                        x: initialX + (Math.random() * jitter - jitter/2),
-                        y: initialY + (Math.random() * jitter - jitter/2)
-                    });
-
-                    links.push({
-                        source: funcId,
-                        target: fileId,
-                        type: EdgeType.IMPORTS
-                    });
-                }
-            }
+    // Bare-name lookup: a definition in the caller's own file wins, otherwise the name must be unique
+    const lookupSymbol = (name: string, filePath: string): string | undefined => {
+        const candidates = definedSymbols.get(name.split('.').pop()!) || [];
+        const local = candidates.find(id => symbolFiles.get(id) === filePath);
+        return local ?? (candidates.length === 1 ? candidates[0] : undefined);
+    };
+
+    // Qualname lookup inside another module, following re-exports such as `from .core import run` in __init__.py
+    const resolveModuleSymbol = (filePath: string, qualname: string, depth = 0): string | undefined => {
+        const direct = moduleSymbolsByPath.get(filePath)?.get(qualname);
+        if (direct || depth >= 5) return direct;
+
+        const bindings = analysis[filePath]?.bindings || {};
+        const parts = qualname.split('.');
+        for (let i = parts.length; i > 0; i--) {
+            const binding = bindings[parts.slice(0, i).join('.')];
+            if (!binding) continue;
+            const rest = [...(binding.attr ? [binding.attr] : []), ...parts.slice(i)];
+            return rest.length > 0 ? resolveModuleSymbol(binding.path, rest.join('.'), depth + 1) : undefined;
         }
+        return undefined;
+    };
+
+    const nodeIds = new Set(nodes.map(n => n.id));
+
+    // Module-to-module import edges (one per imported workspace module)
+    fragments.forEach(({ imports }, filePath) => {
+        const targets = new Set<string>();
+        imports.forEach(imp => {
+            const targetId = imp.path ? `file-${imp.path}` : undefined;
+            if (targetId && imp.path !== filePath && !targets.has(targetId) && nodeIds.has(targetId)) {
+                targets.add(targetId);
+                links.push({ source: `file-${filePath}`, target: targetId, type: EdgeType.IMPORTS });
+            }
+        });
+    });
+
+    // Bases imported from other modules, or unresolved ones falling back to the bare class name
+    fragments.forEach(({ pendingBases }, filePath) => {
+        pendingBases.forEach(({ classId, base }) => {
+            const baseId = base.module && base.target
+                ? resolveModuleSymbol(base.module, base.target)
+                : lookupSymbol(base.name, filePath);
+            if (baseId && baseId.startsWith('cls-') && baseId !== classId) {
+                links.push({ source: classId, target: baseId, type: EdgeType.INHERITS });
+            }
+        });
     });
 
     // 2. Pass: Create Edges (Call Graph) for Python
-    nodes.filter(n => n.type === NodeType.FUNCTION).forEach(sourceNode => {
-        if (!sourceNode.code) return;
+    nodes.filter(n => n.type === NodeType.FUNCTION || n.type === NodeType.METHOD).forEach(sourceNode => {
+        if (!sourceNode.code || !sourceNode.filePath) return;
+        const filePath = sourceNode.filePath;
+        const fragment = fragments.get(filePath)!;
+
+        const calls = fragment.resolvedCalls.get(sourceNode.id);
+        if (calls) {
+            // AST call sites: use the analyzer's resolution, falling back to the bare name across files
+            // for calls it could not place (but never for external packages or unresolved self/super members)
+            const targets = new Set<string>();
+            calls.forEach(call => {
+                let targetId: string | undefined;
+                if (call.kind === 'local') {
+                    targetId = fragment.moduleSymbols.get(call.target!);
+                } else if (call.kind === 'import') {
+                    targetId = call.module && call.target ? resolveModuleSymbol(call.module, call.target) : undefined;
+                } else if (call.kind === 'unresolved' && !/^(self|cls|super\(\))\./.test(call.name)) {
+                    targetId = lookupSymbol(call.name, filePath);
+                }
+                if (targetId && !targets.has(targetId) && nodeIds.has(targetId)) {
+                    targets.add(targetId);
+                    links.push({ source: sourceNode.id, target: targetId, type: EdgeType.CALLS });
+                }
+            });
+            return;
+        }
         
-        definedFunctions.forEach((targetId, targetName) => {
+        definedSymbols.forEach((_, targetName) => {
+            const targetId = lookupSymbol(targetName, filePath);
+            if (!targetId) return;
             const callRegex = new RegExp(`\\b${targetName}\\(`, 'g');
             
-            if (sourceNode.label === targetName) {
+            if (sourceNode.id === targetId) {
                  // Recursive check
                  const bodyOnly = sourceNode.code!.split('\n').slice(1).join('\n');
                  if (callRegex.test(bodyOnly)) {
@@ -0,0 +1,161 @@
+import { EdgeType, FileMap, GraphData, NodeData, NodeType } from './types';
+
+export interface DuplicatePair {
+    first: NodeData;
+    second: NodeData;
+    score: number;
+}
+
+export interface HelperProposal {
+    description: string;
+    helperName: string;
+    helperCode: string; // Top-level function, without indentation
+    firstCode: string; // Both functions rewritten to call the helper, indentation preserved
+    secondCode: string;
+}
+
+/**
+ * Pairs of functions joined by the strongest SEMANTIC edges, best first.
+ */
+export function findDuplicateCandidates(data: GraphData, limit: number): DuplicatePair[] {
+    const nodesById = new Map(data.nodes.map(n => [n.id, n]));
+    const isFunction = (n?: NodeData): n is NodeData =>
+        !!n && (n.type === NodeType.FUNCTION || n.type === NodeType.METHOD)
+        && !!n.code && !!n.filePath && n.startLine !== undefined && n.endLine !== undefined;
+
+    return data.links
+        .filter(l => l.type === EdgeType.SEMANTIC)
+        .sort((a, b) => (b.weight ?? 0) - (a.weight ?? 0))
+        .flatMap(l => {
+            const first = nodesById.get(l.source);
+            const second = nodesById.get(l.target);
+            return isFunction(first) && isFunction(second) ? [{ first, second, score: l.weight ?? 0 }] : [];
+        })
+        .slice(0, limit);
+}
+
+/**
+ * The pair with the functions' current line ranges, or undefined when either function was
+ * edited or removed since the pair was found: the proposal rewrites the code it was shown.
+ */
+export function currentPair(pair: DuplicatePair, data: GraphData, fileMap: FileMap): DuplicatePair | undefined {
+    const nodesById = new Map(data.nodes.map(n => [n.id, n]));
+    const current = (found: NodeData): NodeData | undefined => {
+        const node = nodesById.get(found.id);
+        if (!node?.filePath || node.code !== found.code || node.startLine === undefined || node.endLine === undefined) return undefined;
+        // The graph can lag behind the files while they are analyzed again
+        const lines = (fileMap[node.filePath] ?? '').split('\n').slice(node.startLine - 1, node.endLine).join('\n');
+        return lines === found.code ? node : undefined;
+    };
+
+    const first = current(pair.first);
+    const second = current(pair.second);
+    return first && second ? { ...pair, first, second } : undefined;
+}
+
+// "pkg/text/render.py" -> "pkg.text.render", for files without a module name from the analyzer
+export function moduleNameFromPath(filePath: string): string {
+    return filePath.replace(/\.py$/, '').replace(/\/__init__$/, '').split('/').join('.');
+}
+
+/**
+ * Last line of the statement starting at `start`, which continues over open parentheses and
+ * trailing backslashes, e.g. `from x import (\n    a,\n)`.
+ */
+function statementEnd(lines: string[], start: number): number {
+    let depth = 0;
+    for (let i = start; i < lines.length; i++) {
+        const code = lines[i].replace(/#.*$/, '');
+        depth += (code.match(/\(/g) ?? []).length - (code.match(/\)/g) ?? []).length;
+        if (depth <= 0 && !code.trimEnd().endsWith('\\')) return i;
+    }
+    return lines.length - 1;
+}
+
+/**
+ * First line after the module's shebang, encoding cookie and docstring.
+ */
+function headerEnd(lines: string[]): number {
+    let i = 0;
+    while (i < lines.length && (lines[i].trim() === '' || (i < 2 && /^#(!|.*coding[:=])/.test(lines[i])))) i++;
+
+    const docstring = lines[i]?.match(/^[rRuUbB]{0,2}("""|'''|"|')/);
+    if (!docstring) return i;
+    const quote = docstring[1];
+    if (quote.length === 3 && !lines[i].slice(docstring[0].length).includes(quote)) {
+        const end = lines.findIndex((line, j) => j > i && line.includes(quote));
+        return end === -1 ? lines.length : end + 1;
+    }
+    return i + 1;
+}
+
+/**
+ * Inserts `statement` after the module's last top-level import (which is after any
+ * `from __future__` import), or else after the module header.
+ */
+function addImport(content: string, statement: string): string {
+    const lines = content.split('\n');
+    if (lines.some(line => line.trim() === statement)) return content;
+
+    const start = headerEnd(lines);
+    let lastImportEnd = -1;
+    for (let i = start; i < lines.length; i++) {
+        if (/^(import|from)\s/.test(lines[i])) {
+            i = lastImportEnd = statementEnd(lines, i);
+        }
+    }
+    if (lastImportEnd === -1) {
+        // After the blank lines that follow the header
+        let first = start;
+        while (first < lines.length && lines[first].trim() === '') first++;
+        lines.splice(first, 0, ...(first > 0 && lines[first - 1].trim() !== '' ? [''] : []), statement, '', '');
+    } else {
+        lines.splice(lastImportEnd + 1, 0, statement);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * The files changed by extracting a shared helper: both functions replaced by their
+ * rewritten versions, the helper appended to `helperFilePath`, and an import of it added
+ * to the other modules. Returns only files whose content changed.
+ */
+export function buildHelperExtraction(
+    pair: DuplicatePair,
+    proposal: HelperProposal,
+    helperFilePath: string,
+    helperModuleName: string,
+    fileMap: FileMap
+): FileMap {
+    const replacements = [
+        { node: pair.first, code: proposal.firstCode },
+        { node: pair.second, code: proposal.secondCode }
+    ];
+
+    const files: FileMap = {};
+    const paths = [...new Set([...replacements.map(r => r.node.filePath!), helperFilePath])];
+    paths.forEach(filePath => {
+        let content = fileMap[filePath] ?? '';
+
+        // Bottom-up, so replacing one function does not shift the lines of the other
+        replacements
+            .filter(r => r.node.filePath === filePath)
+            .sort((a, b) => b.node.startLine! - a.node.startLine!)
+            .forEach(({ node, code }) => {
+                const lines = content.split('\n');
+                lines.splice(node.startLine! - 1, node.endLine! - node.startLine! + 1, code);
+                content = lines.join('\n');
+            });
+
+        if (filePath === helperFilePath) {
+            content = content.trim()
+                ? `${content.replace(/\s*$/, '')}\n\n\n${proposal.helperCode.trim()}\n`
+                : `${proposal.helperCode.trim()}\n`;
+        } else {
+            content = addImport(content, `from ${helperModuleName} import ${proposal.helperName}`);
+        }
+
+        if (content !== fileMap[filePath]) files[filePath] = content;
+    });
+    return files;
+}
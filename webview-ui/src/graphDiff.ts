@@ -0,0 +1,128 @@
+import { EdgeType, GraphData, LinkData, NodeData, NodeType } from './types';
+
+export interface GraphDiff {
+    addedNodes: NodeData[];
+    removedNodeIds: string[];
+    changedNodes: NodeData[]; // The new versions
+    addedLinks: LinkData[];
+    removedLinkKeys: string[];
+}
+
+// Fields the webview adds to generated nodes; they carry over to the new version of a node
+const PRESERVED_FIELDS: Array<keyof NodeData> = ['x', 'y', 'embedding', 'embeddingModel', 'isStale'];
+
+export const linkKey = (l: LinkData) => `${l.source}-${l.target}-${l.type}`;
+
+function isSameValue(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isSameNode(current: NodeData, next: NodeData): boolean {
+    const keys = new Set([...Object.keys(current), ...Object.keys(next)] as Array<keyof NodeData>);
+    return [...keys].every(key => PRESERVED_FIELDS.includes(key) || isSameValue(current[key], next[key]));
+}
+
+/**
+ * Differences between the current graph and a newly generated structure. SEMANTIC edges are
+ * not part of the structure; they are only removed along with one of their nodes.
+ */
+export function diffGraphStructure(current: GraphData, structure: GraphData): GraphDiff {
+    const currentNodes = new Map(current.nodes.map(n => [n.id, n]));
+    const nextIds = new Set(structure.nodes.map(n => n.id));
+
+    const addedNodes: NodeData[] = [];
+    const changedNodes: NodeData[] = [];
+    structure.nodes.forEach(next => {
+        const existing = currentNodes.get(next.id);
+        if (!existing) addedNodes.push(next);
+        else if (!isSameNode(existing, next)) changedNodes.push(next);
+    });
+    const removedNodeIds = current.nodes.filter(n => !nextIds.has(n.id)).map(n => n.id);
+
+    const currentKeys = new Set(current.links.map(linkKey));
+    const nextKeys = new Set(structure.links.map(linkKey));
+    const addedLinks = structure.links.filter(l => !currentKeys.has(linkKey(l)));
+    const removedLinkKeys = current.links
+        .filter(l => l.type === EdgeType.SEMANTIC
+            ? !nextIds.has(l.source) || !nextIds.has(l.target)
+            : !nextKeys.has(linkKey(l)))
+        .map(linkKey);
+
+    return { addedNodes, removedNodeIds, changedNodes, addedLinks, removedLinkKeys };
+}
+
+export function isEmptyDiff(diff: GraphDiff): boolean {
+    return diff.addedNodes.length === 0 && diff.removedNodeIds.length === 0 && diff.changedNodes.length === 0
+        && diff.addedLinks.length === 0 && diff.removedLinkKeys.length === 0;
+}
+
+/**
+ * Applies a diff, keeping the objects of unchanged nodes and links. Changed nodes keep their
+ * position and embedding; the embedding is marked stale when their code changed. Returns
+ * `current` itself when there is nothing to apply.
+ */
+export function applyGraphDiff(current: GraphData, diff: GraphDiff): GraphData {
+    if (isEmptyDiff(diff)) return current;
+
+    const removed = new Set(diff.removedNodeIds);
+    const changed = new Map(diff.changedNodes.map(n => [n.id, n]));
+    const nodes = current.nodes
+        .filter(n => !removed.has(n.id))
+        .map(n => {
+            const next = changed.get(n.id);
+            if (!next) return n;
+            return {
+                ...next,
+                x: n.x,
+                y: n.y,
+                embedding: n.embedding,
+                embeddingModel: n.embeddingModel,
+                isStale: n.isStale || n.code !== next.code
+            };
+        });
+    diff.addedNodes.forEach(n => nodes.push({ ...n, isStale: true }));
+
+    const removedLinks = new Set(diff.removedLinkKeys);
+    const links = [...current.links.filter(l => !removedLinks.has(linkKey(l))), ...diff.addedLinks];
+
+    return { nodes, links };
+}
+
+/**
+ * Node id after a file rename: file, class and function ids all embed the file path.
+ * `renames` maps old to new workspace paths; ids of other files are returned unchanged.
+ */
+export function renamedNodeId(id: string, renames: Map<string, string>): string {
+    const match = id.match(/^(file-)(.*)()$/) ?? id.match(/^((?:cls|fn)-)(.*?)(::.*)$/);
+    const to = match ? renames.get(match[2]) : undefined;
+    return to === undefined ? id : `${match![1]}${to}${match![3]}`;
+}
+
+/**
+ * Moves the nodes of renamed files to their new path, keeping positions and embeddings, so the
+ * next structure diff finds them unchanged.
+ */
+export function renameGraphFiles(data: GraphData, renames: Map<string, string>): GraphData {
+    if (renames.size === 0) return data;
+
+    const nodes = data.nodes.map(n => {
+        const to = n.filePath !== undefined ? renames.get(n.filePath) : undefined;
+        if (to === undefined) return n;
+        return {
+            ...n,
+            id: renamedNodeId(n.id, renames),
+            filePath: to,
+            parentId: n.parentId && renamedNodeId(n.parentId, renames),
+            label: n.type === NodeType.MODULE || n.type === NodeType.FILE ? to.split('/').pop() || to : n.label
+        };
+    });
+    const links = data.links.map(l => {
+        const source = renamedNodeId(l.source, renames);
+        const target = renamedNodeId(l.target, renames);
+        return source === l.source && target === l.target ? l : { ...l, source, target };
+    });
+
+    return { nodes, links };
+}
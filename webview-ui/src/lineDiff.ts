@@ -0,0 +1,87 @@
+export interface DiffLine {
+    kind: 'context' | 'added' | 'removed';
+    text: string;
+}
+
+// Beyond this many changed lines (old x new) the diff falls back to remove-all/add-all
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Line diff of two texts. The common head and tail are trimmed first, so the longest
+ * common subsequence only runs over the changed middle.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const head = a.slice(0, start).map(text => ({ kind: 'context' as const, text }));
+    const tail = a.slice(endA).map(text => ({ kind: 'context' as const, text }));
+    const oldMiddle = a.slice(start, endA);
+    const newMiddle = b.slice(start, endB);
+
+    if (oldMiddle.length * newMiddle.length > MAX_LCS_CELLS) {
+        return [
+            ...head,
+            ...oldMiddle.map(text => ({ kind: 'removed' as const, text })),
+            ...newMiddle.map(text => ({ kind: 'added' as const, text })),
+            ...tail
+        ];
+    }
+
+    // lengths[i][j]: LCS length of oldMiddle[i..] and newMiddle[j..]
+    const lengths = Array.from({ length: oldMiddle.length + 1 }, () => new Uint32Array(newMiddle.length + 1));
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+        for (let j = newMiddle.length - 1; j >= 0; j--) {
+            lengths[i][j] = oldMiddle[i] === newMiddle[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const middle: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length || j < newMiddle.length) {
+        if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+            middle.push({ kind: 'context', text: oldMiddle[i] });
+            i++;
+            j++;
+        } else if (j < newMiddle.length && (i === oldMiddle.length || lengths[i][j + 1] > lengths[i + 1][j])) {
+            middle.push({ kind: 'added', text: newMiddle[j] });
+            j++;
+        } else {
+            middle.push({ kind: 'removed', text: oldMiddle[i] });
+            i++;
+        }
+    }
+
+    return [...head, ...middle, ...tail];
+}
+
+/**
+ * Drops unchanged lines further than `context` lines from a change. Gaps are marked with a
+ * null entry so they can be drawn as a separator.
+ */
+export function trimDiffContext(lines: DiffLine[], context = 3): Array<DiffLine | null> {
+    const keep = lines.map(() => false);
+    lines.forEach((line, index) => {
+        if (line.kind === 'context') return;
+        for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) keep[k] = true;
+    });
+
+    const result: Array<DiffLine | null> = [];
+    lines.forEach((line, index) => {
+        if (keep[index]) result.push(line);
+        else if (index > 0 && keep[index - 1]) result.push(null);
+    });
+    return result;
+}
@@ -0,0 +1,47 @@
+import { EdgeType, GraphData, NodeType } from './types';
+import { PanelScope } from './vscodeApi';
+
+/**
+ * The part of the graph a panel shows. An entry-point panel shows the function, everything
+ * it calls directly or indirectly, and the classes and files those are defined in. Calling a
+ * class reaches its `__init__` and the methods the instance may call. The host already
+ * loads only the files of a folder panel, so other scopes show the whole graph.
+ */
+export function scopeGraph(data: GraphData, scope: PanelScope | null): GraphData {
+    if (scope?.kind !== 'entryPoint') return data;
+
+    const nodesById = new Map(data.nodes.map(n => [n.id, n]));
+    const callees = new Map<string, string[]>();
+    data.links.forEach(l => {
+        if (l.type !== EdgeType.CALLS) return;
+        if (!callees.has(l.source)) callees.set(l.source, []);
+        callees.get(l.source)!.push(l.target);
+    });
+    const members = new Map<string, string[]>();
+    data.nodes.forEach(n => {
+        if (!n.parentId || nodesById.get(n.parentId)?.type !== NodeType.CLASS) return;
+        if (!members.has(n.parentId)) members.set(n.parentId, []);
+        members.get(n.parentId)!.push(n.id);
+    });
+
+    const reachable = new Set<string>();
+    const queue = [`fn-${scope.path}::${scope.qualname}`].filter(id => nodesById.has(id));
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (reachable.has(id)) continue;
+        reachable.add(id);
+        queue.push(...(callees.get(id) ?? []), ...(members.get(id) ?? []));
+    }
+
+    const shown = new Set(reachable);
+    reachable.forEach(id => {
+        for (let parentId = nodesById.get(id)?.parentId; parentId && !shown.has(parentId); parentId = nodesById.get(parentId)?.parentId) {
+            shown.add(parentId);
+        }
+    });
+
+    return {
+        nodes: data.nodes.filter(n => shown.has(n.id)),
+        links: data.links.filter(l => shown.has(l.source) && shown.has(l.target))
+    };
+}
@@ -0,0 +1,187 @@
+import { EdgeType, LinkData, NodeData } from './types';
+
+// Minimum similarity for a SEMANTIC edge when the user has not picked one. Offline
+// embeddings (model "local:...") score unrelated code lower and related code less
+// consistently than hosted models.
+const SEMANTIC_THRESHOLD = 0.75;
+const LOCAL_SEMANTIC_THRESHOLD = 0.6;
+
+// Each function links to at most this many of its most similar functions
+export const SEMANTIC_TOP_K = 5;
+
+// Above this many vectors (per model) candidates come from the LSH index instead of all pairs
+const ANN_MIN_VECTORS = 1000;
+const LSH_TABLES = 16;
+
+export function defaultSimilarityThreshold(model?: string): number {
+    return model?.startsWith('local:') ? LOCAL_SEMANTIC_THRESHOLD : SEMANTIC_THRESHOLD;
+}
+
+export function cosineSimilarity(vecA: number[], vecB: number[]) {
+    const dotProduct = vecA.reduce((sum, a, i) => sum + a * vecB[i], 0);
+    const magnitudeA = Math.sqrt(vecA.reduce((sum, a) => sum + a * a, 0));
+    const magnitudeB = Math.sqrt(vecB.reduce((sum, b) => sum + b * b, 0));
+    return (magnitudeA * magnitudeB) === 0 ? 0 : dotProduct / (magnitudeA * magnitudeB);
+}
+
+function normalize(vector: number[]): Float32Array {
+    const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    const result = new Float32Array(vector.length);
+    if (magnitude > 0) {
+        vector.forEach((v, i) => { result[i] = v / magnitude; });
+    }
+    return result;
+}
+
+// With normalised vectors the dot product is the cosine similarity
+function dot(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+}
+
+// Small seeded PRNG (mulberry32) so the index, and with it the edges, are the same on every run
+function seededRandom(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Random-hyperplane LSH: vectors with a small angle between them tend to fall on the same
+ * side of every hyperplane and so share a bucket in at least one of the tables.
+ * Returns, for each vector, the indices of the other vectors sharing a bucket with it.
+ */
+function lshCandidates(vectors: Float32Array[]): Array<Set<number>> {
+    const dimensions = vectors[0].length;
+    // About 16 vectors per bucket keeps recall high while cutting most comparisons
+    const bits = Math.max(4, Math.min(16, Math.round(Math.log2(vectors.length / 16))));
+    const random = seededRandom(dimensions * 31 + vectors.length);
+    const candidates = vectors.map(() => new Set<number>());
+
+    for (let table = 0; table < LSH_TABLES; table++) {
+        const planes = Array.from({ length: bits }, () => {
+            const plane = new Float32Array(dimensions);
+            for (let d = 0; d < dimensions; d++) plane[d] = random() * 2 - 1;
+            return plane;
+        });
+
+        const buckets = new Map<number, number[]>();
+        vectors.forEach((vector, i) => {
+            let hash = 0;
+            planes.forEach((plane, bit) => {
+                if (dot(vector, plane) >= 0) hash |= 1 << bit;
+            });
+            if (!buckets.has(hash)) buckets.set(hash, []);
+            buckets.get(hash)!.push(i);
+        });
+
+        buckets.forEach(members => {
+            members.forEach(i => members.forEach(j => {
+                if (i !== j) candidates[i].add(j);
+            }));
+        });
+    }
+    return candidates;
+}
+
+/**
+ * The `limit` items most similar to the query vector, best first.
+ */
+export function rankBySimilarity(
+    query: number[],
+    items: Array<{ id: string; vector: number[] }>,
+    limit: number
+): Array<{ id: string; score: number }> {
+    const normalizedQuery = normalize(query);
+    return items
+        .filter(item => item.vector.length === query.length)
+        .map(item => ({ id: item.id, score: dot(normalizedQuery, normalize(item.vector)) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+}
+
+export interface SimilarPair {
+    source: string;
+    target: string;
+    score: number;
+}
+
+export interface SimilarityOptions {
+    threshold: number;
+    topK?: number;
+    // Use the LSH index; defaults to on above ANN_MIN_VECTORS vectors
+    approximate?: boolean;
+}
+
+/**
+ * Pairs with similarity of at least `threshold` where one side is among the other's top-k
+ * nearest neighbours. Vectors must all come from the same embedding model.
+ */
+export function findSimilarPairs(
+    items: Array<{ id: string; vector: number[] }>,
+    { threshold, topK = SEMANTIC_TOP_K, approximate }: SimilarityOptions
+): SimilarPair[] {
+    if (items.length < 2) return [];
+
+    const vectors = items.map(item => normalize(item.vector));
+    const useIndex = approximate ?? items.length > ANN_MIN_VECTORS;
+    const candidates = useIndex ? lshCandidates(vectors) : undefined;
+
+    // Best matches per vector, kept sorted by descending score
+    const neighbours: Array<Array<{ index: number; score: number }>> = vectors.map(() => []);
+    const offer = (i: number, j: number, score: number) => {
+        const list = neighbours[i];
+        if (list.length === topK && list[topK - 1].score >= score) return;
+        let position = list.findIndex(n => n.score < score);
+        if (position === -1) position = list.length;
+        list.splice(position, 0, { index: j, score });
+        if (list.length > topK) list.pop();
+    };
+
+    vectors.forEach((vector, i) => {
+        const others = candidates ? [...candidates[i]].filter(j => j > i) : undefined;
+        const count = others ? others.length : vectors.length - i - 1;
+        for (let k = 0; k < count; k++) {
+            const j = others ? others[k] : i + 1 + k;
+            const score = dot(vector, vectors[j]);
+            if (score >= threshold) {
+                offer(i, j, score);
+                offer(j, i, score);
+            }
+        }
+    });
+
+    const pairs = new Map<string, SimilarPair>();
+    neighbours.forEach((list, i) => list.forEach(({ index: j, score }) => {
+        const [a, b] = i < j ? [i, j] : [j, i];
+        pairs.set(`${a}:${b}`, { source: items[a].id, target: items[b].id, score });
+    }));
+    return [...pairs.values()];
+}
+
+/**
+ * SEMANTIC edges between embedded nodes. Embeddings of different models are never compared;
+ * without an explicit threshold each model uses its default.
+ */
+export function computeSemanticLinks(nodes: NodeData[], threshold?: number | null): LinkData[] {
+    const byModel = new Map<string, Array<{ id: string; vector: number[] }>>();
+    nodes.forEach(n => {
+        if (!n.embedding) return;
+        const model = n.embeddingModel ?? '';
+        if (!byModel.has(model)) byModel.set(model, []);
+        byModel.get(model)!.push({ id: n.id, vector: n.embedding });
+    });
+
+    const links: LinkData[] = [];
+    byModel.forEach((items, model) => {
+        findSimilarPairs(items, { threshold: threshold ?? defaultSimilarityThreshold(model) })
+            .forEach(({ source, target, score }) => {
+                links.push({ source, target, type: EdgeType.SEMANTIC, weight: score });
+            });
+    });
+    return links;
+}
@@ -2,8 +2,11 @@
 export enum NodeType {
   MODULE = 'MODULE',
   FILE = 'FILE',
+  CLASS = 'CLASS',
   FUNCTION = 'FUNCTION',
+  METHOD = 'METHOD',
   NOTE = 'NOTE',
+  CLUSTER = 'CLUSTER', // Collapsed group of semantically similar functions
 }
 
 export enum EdgeType {
@@ -12,6 +15,8 @@ export enum EdgeType {
   READS_WRITES = 'READS_WRITES',
   TESTED_BY = 'TESTED_BY',
   SEMANTIC = 'SEMANTIC',
+  INHERITS = 'INHERITS',
+  BELONGS_TO = 'BELONGS_TO', // Symbol -> containing file/class/function
 }
 
 export interface NodeData {
@@ -20,16 +25,25 @@ export interface NodeData {
   label: string;
   language?: 'typescript' | 'python' | 'markdown' | 'text' | 'json'; 
   code?: string;
+  filePath?: string; // Workspace-relative path of the defining file (also the FileMap key)
+  parentId?: string; // Containing node: file, class or enclosing function
   metadata?: {
     why?: string;
     tradeOff?: string;
     status?: 'stable' | 'experimental' | 'deprecated';
   };
   complexity?: number; // 0-100
+  signature?: string;
+  decorators?: string[];
+  startLine?: number; // 1-based, inclusive (first decorator line)
+  endLine?: number;
+  externalImports?: Array<{ module: string; kind: 'stdlib' | 'external' }>; // Modules: imports outside the workspace
   x?: number;
   y?: number;
   embedding?: number[];
+  embeddingModel?: string; // Only embeddings of the same model are compared
   isStale?: boolean; // Indicates code has changed and embedding needs update
+  clusterMembers?: string[]; // Clusters: ids of the collapsed nodes
 }
 
 export interface LinkData {
@@ -48,10 +62,73 @@ export interface GraphData {
 export interface FileSystemItem {
   id: string;
   name: string;
-  type: 'file' | 'folder';
+  type: 'file' | 'folder' | 'class' | 'function' | 'method';
   language?: 'python' | 'typescript' | 'json' | 'markdown' | 'text';
+  path?: string; // Workspace-relative path (files and folders from the workspace)
   children?: FileSystemItem[];
   isOpen?: boolean; // For initial state
+  functionCount?: number; // Folders: functions and methods in the graph below this folder
 }
 
-export type FileMap = Record<string, string>;
+export type FileMap = Record<string, string>; // Workspace-relative path -> content
+
+// RefactorPanel console
+export interface ConsoleLine {
+  kind: 'info' | 'stdout' | 'stderr' | 'result' | 'exit' | 'error';
+  text: string;
+  isPartial?: boolean; // stdout/stderr text still waiting for its newline
+}
+
+// Python AST Analysis (produced by the extension host's analyzer)
+export interface PythonCallSite {
+  name: string; // Dotted callee expression, e.g. "helper" or "utils.logger"
+  line: number;
+  target: string | null; // Qualname of the callee (function, method or class) inside the target module
+  module: string | null; // Workspace path of the target module, null when it is this module
+  kind: 'local' | 'import' | 'external' | 'unresolved';
+}
+
+export interface PythonFunctionInfo {
+  name: string;
+  qualname: string;
+  kind: 'function' | 'method';
+  isAsync: boolean;
+  parent: string | null;
+  startLine: number;
+  defLine: number;
+  endLine: number;
+  signature: string;
+  decorators: string[];
+  docstring: string | null;
+  calls: PythonCallSite[];
+}
+
+export interface PythonClassInfo {
+  name: string;
+  qualname: string;
+  parent: string | null;
+  startLine: number;
+  defLine: number;
+  endLine: number;
+  bases: Array<{ name: string; target: string | null; module: string | null }>;
+  decorators: string[];
+  docstring: string | null;
+}
+
+export interface PythonImport {
+  module: string; // Absolute dotted module name
+  line: number;
+  kind: 'internal' | 'stdlib' | 'external';
+  path: string | null; // Workspace path when the module is part of the workspace
+}
+
+export interface PythonModuleAnalysis {
+  moduleName: string;
+  functions: PythonFunctionInfo[];
+  classes: PythonClassInfo[];
+  imports: PythonImport[];
+  bindings: Record<string, { path: string; attr: string | null }>; // Import-bound names that point into the workspace
+  error?: string;
+}
+
+export type PythonAnalysis = Record<string, PythonModuleAnalysis>;
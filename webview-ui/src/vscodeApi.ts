@@ -1,4 +1,5 @@
 // Type-safe VSCode API wrapper for WebView communication
+import { FileSystemItem, PythonAnalysis } from './types';
 
 interface VSCodeApi {
     postMessage(message: any): void;
@@ -95,15 +96,42 @@ async function sendRequest<T>(type: string, payload?: any, timeout = 30000): Pro
 }
 
 // File Operations
+export interface TruncatedLanguage {
+    language: string;
+    found: number;
+    shown: number;
+}
+
+// What this panel shows; see PanelScope in the extension host
+export type PanelScope =
+    | { kind: 'workspace' }
+    | { kind: 'folder'; path: string }
+    | { kind: 'entryPoint'; path: string; qualname: string };
+
 export interface WorkspaceFilesResult {
-    fileMap: Record<string, string>;
-    fileTree: Array<{
-        id: string;
-        name: string;
-        type: 'file' | 'folder';
-        language: string;
-        fullPath: string;
-    }>;
+    fileTree: FileSystemItem[]; // One root folder per workspace folder
+    truncated: TruncatedLanguage[]; // Languages that hit tektite.maxFilesPerLanguage
+    total: number; // Files that will arrive in workspaceFilesBatch messages
+    scope: PanelScope;
+}
+
+export interface WorkspaceFilesBatch {
+    files: Record<string, string>;
+    mtimes?: Record<string, number>; // Modification time on disk, for detecting changes before a save
+    analysis: PythonAnalysis; // Python files of this batch, analyzed by the extension host
+    analyzerError?: string;
+    loaded: number;
+    total: number;
+}
+
+// Files created, deleted, renamed or changed on disk since the workspace was loaded
+export interface WorkspaceFilesChanges {
+    fileTree: FileSystemItem[];
+    truncated: TruncatedLanguage[];
+    files: Record<string, string>; // Added files, and files changed on disk that are not open in an editor
+    mtimes: Record<string, number>;
+    removed: string[];
+    renamed: Array<{ from: string; to: string }>;
 }
 
 export async function getWorkspaceFiles(): Promise<WorkspaceFilesResult> {
@@ -114,22 +142,125 @@ export async function getFileContent(path: string): Promise<{ content: string }>
     return sendRequest<{ content: string }>('getFileContent', { path });
 }
 
-export async function saveFile(path: string, content: string): Promise<{ success: boolean }> {
-    return sendRequest<{ success: boolean }>('saveFile', { path, content });
+export interface SaveFileResult {
+    success: boolean;
+    mtime?: number;
+    diskContent?: string; // The file changed on disk and the user chose to reload it
+}
+
+// With expectedMtime, the user is asked before overwriting a file that changed on disk since
+export async function saveFile(path: string, content: string, expectedMtime?: number): Promise<SaveFileResult> {
+    return sendRequest<SaveFileResult>('saveFile', { path, content, expectedMtime }, 300000);
+}
+
+// Opens the file beside the graph, selecting the lines (1-based, inclusive) when given
+export async function revealInEditor(path: string, startLine?: number, endLine?: number): Promise<{ revealed: boolean }> {
+    return sendRequest<{ revealed: boolean }>('revealInEditor', { path, startLine, endLine });
+}
+
+// Follow mode is stored in the tektite.followEditor setting; onFollowEditorChanged reports the change
+export async function setFollowEditor(enabled: boolean): Promise<{ enabled: boolean }> {
+    return sendRequest<{ enabled: boolean }>('setFollowEditor', { enabled });
+}
+
+export interface FileEdit {
+    path: string;
+    original?: string; // Content the edit was made against; undefined creates the file
+    content: string;
+}
+
+export interface ApplyEditsResult {
+    applied: boolean; // False when the preview was declined or a document had changed
+    conflicts: Record<string, string>; // Current content of documents that had changed
+}
+
+// Edits go through VS Code's edit model (editor buffers, undo stack); refactors may open a preview first
+export async function applyEdits(edits: FileEdit[], label: string, isRefactoring: boolean): Promise<ApplyEditsResult> {
+    return sendRequest<ApplyEditsResult>('applyEdits', { edits, label, isRefactoring }, 300000);
+}
+
+// Python Analysis
+export async function analyzePython(files: Record<string, string>, modulePaths: string[] = []): Promise<{ modules: PythonAnalysis }> {
+    return sendRequest<{ modules: PythonAnalysis }>('analyzePython', { files, modulePaths }, 60000);
 }
 
 // Python Execution
-export async function runPython(code: string): Promise<{ output: string }> {
-    return sendRequest<{ output: string }>('runPython', { code });
+export interface PythonExit {
+    runId: string;
+    exitCode?: number | null;
+    signal?: string | null;
+    durationMs?: number;
+    timedOut?: boolean;
+    cancelled?: boolean;
+    returnValue?: string; // repr() of the return value, for runFunction
+    error?: string; // The process could not be started
+}
+
+// Starts a run; output arrives through onPythonOutput and the exit status through onPythonExit
+export async function runPython(code: string, runId: string): Promise<{ runId: string }> {
+    return sendRequest<{ runId: string }>('runPython', { code, runId });
+}
+
+// Calls one function (qualname) inside its module, with args as a Python argument list
+export async function runFunction(
+    runId: string,
+    filePath: string,
+    moduleName: string,
+    qualname: string,
+    args: string
+): Promise<{ runId: string }> {
+    return sendRequest<{ runId: string }>('runFunction', { runId, filePath, moduleName, qualname, args });
+}
+
+export async function cancelPython(runId: string): Promise<{ cancelled: boolean }> {
+    return sendRequest<{ cancelled: boolean }>('cancelPython', { runId });
+}
+
+// Python Interpreter
+export interface ActiveInterpreter {
+    pythonPath: string;
+    name: string;
+    source: 'setting' | 'venv' | 'poetry' | 'conda' | 'system';
+}
+
+export async function getInterpreter(): Promise<ActiveInterpreter> {
+    return sendRequest<ActiveInterpreter>('getInterpreter');
+}
+
+// Opens the interpreter quick pick; waits while the user chooses
+export async function selectInterpreter(): Promise<ActiveInterpreter> {
+    return sendRequest<ActiveInterpreter>('selectInterpreter', undefined, 300000);
 }
 
 // AI Operations
-export async function checkApiKey(): Promise<{ hasApiKey: boolean }> {
-    return sendRequest<{ hasApiKey: boolean }>('getApiKey');
+// hasApiKey is also true for providers that run without a key (local OpenAI-compatible servers)
+export async function checkApiKey(): Promise<{ hasApiKey: boolean; provider: 'gemini' | 'openai' }> {
+    return sendRequest<{ hasApiKey: boolean; provider: 'gemini' | 'openai' }>('getApiKey');
+}
+
+export async function callEmbedding(content: string): Promise<{ embedding: number[] | null; model?: string }> {
+    return sendRequest<{ embedding: number[] | null; model?: string }>('callEmbedding', { content }, 60000);
 }
 
-export async function callEmbedding(content: string): Promise<{ embedding: number[] | null }> {
-    return sendRequest<{ embedding: number[] | null }>('callEmbedding', { content }, 60000);
+export interface EmbeddingProgress {
+    batchId: string;
+    model?: string;
+    results: Record<string, number[]>; // New embeddings since the previous message, by item id
+    done: number;
+    failed: number;
+    total: number;
+    finished?: boolean;
+    cancelled?: boolean;
+    error?: string;
+}
+
+// Starts embedding; results arrive through onEmbeddingProgress
+export async function callEmbeddingBatch(batchId: string, items: Array<{ id: string; content: string }>): Promise<{ batchId: string }> {
+    return sendRequest<{ batchId: string }>('callEmbeddingBatch', { batchId, items });
+}
+
+export async function cancelEmbeddingBatch(batchId: string): Promise<{ cancelled: boolean }> {
+    return sendRequest<{ cancelled: boolean }>('cancelEmbeddingBatch', { batchId });
 }
 
 export async function callAI(prompt: string, schema?: any): Promise<{ result: any }> {
@@ -152,6 +283,183 @@ export function onFileChange(callback: FileChangeCallback): () => void {
     };
 }
 
+// Message listener for streamed workspace file contents
+type WorkspaceFilesBatchCallback = (batch: WorkspaceFilesBatch) => void;
+const workspaceFilesBatchListeners: WorkspaceFilesBatchCallback[] = [];
+
+export function onWorkspaceFilesBatch(callback: WorkspaceFilesBatchCallback): () => void {
+    workspaceFilesBatchListeners.push(callback);
+
+    return () => {
+        const index = workspaceFilesBatchListeners.indexOf(callback);
+        if (index > -1) {
+            workspaceFilesBatchListeners.splice(index, 1);
+        }
+    };
+}
+
+// Message listeners for Python run output
+type PythonOutputCallback = (runId: string, stream: 'stdout' | 'stderr', text: string) => void;
+type PythonExitCallback = (exit: PythonExit) => void;
+const pythonOutputListeners: PythonOutputCallback[] = [];
+const pythonExitListeners: PythonExitCallback[] = [];
+
+export function onPythonOutput(callback: PythonOutputCallback): () => void {
+    pythonOutputListeners.push(callback);
+
+    return () => {
+        const index = pythonOutputListeners.indexOf(callback);
+        if (index > -1) {
+            pythonOutputListeners.splice(index, 1);
+        }
+    };
+}
+
+export function onPythonExit(callback: PythonExitCallback): () => void {
+    pythonExitListeners.push(callback);
+
+    return () => {
+        const index = pythonExitListeners.indexOf(callback);
+        if (index > -1) {
+            pythonExitListeners.splice(index, 1);
+        }
+    };
+}
+
+// Message listener for interpreter changes (tektite.pythonPath edited or selected)
+type InterpreterChangeCallback = (interpreter: ActiveInterpreter) => void;
+const interpreterChangeListeners: InterpreterChangeCallback[] = [];
+
+export function onInterpreterChange(callback: InterpreterChangeCallback): () => void {
+    interpreterChangeListeners.push(callback);
+
+    return () => {
+        const index = interpreterChangeListeners.indexOf(callback);
+        if (index > -1) {
+            interpreterChangeListeners.splice(index, 1);
+        }
+    };
+}
+
+// Message listener for embedding batch progress
+type EmbeddingProgressCallback = (progress: EmbeddingProgress) => void;
+const embeddingProgressListeners: EmbeddingProgressCallback[] = [];
+
+export function onEmbeddingProgress(callback: EmbeddingProgressCallback): () => void {
+    embeddingProgressListeners.push(callback);
+
+    return () => {
+        const index = embeddingProgressListeners.indexOf(callback);
+        if (index > -1) {
+            embeddingProgressListeners.splice(index, 1);
+        }
+    };
+}
+
+// Message listener for invalidated embeddings (source or model changed, cache cleared)
+type EmbeddingsInvalidatedCallback = () => void;
+const embeddingsInvalidatedListeners: EmbeddingsInvalidatedCallback[] = [];
+
+export function onEmbeddingsInvalidated(callback: EmbeddingsInvalidatedCallback): () => void {
+    embeddingsInvalidatedListeners.push(callback);
+
+    return () => {
+        const index = embeddingsInvalidatedListeners.indexOf(callback);
+        if (index > -1) {
+            embeddingsInvalidatedListeners.splice(index, 1);
+        }
+    };
+}
+
+// Message listener for files saved in the editor
+type FileSavedCallback = (saved: { path: string; content: string; mtime?: number }) => void;
+const fileSavedListeners: FileSavedCallback[] = [];
+
+export function onFileSaved(callback: FileSavedCallback): () => void {
+    fileSavedListeners.push(callback);
+
+    return () => {
+        const index = fileSavedListeners.indexOf(callback);
+        if (index > -1) {
+            fileSavedListeners.splice(index, 1);
+        }
+    };
+}
+
+// Message listener for the save commands (all: every unsaved file, otherwise the selected node's)
+type SaveRequestedCallback = (all: boolean) => void;
+const saveRequestedListeners: SaveRequestedCallback[] = [];
+
+export function onSaveRequested(callback: SaveRequestedCallback): () => void {
+    saveRequestedListeners.push(callback);
+
+    return () => {
+        const index = saveRequestedListeners.indexOf(callback);
+        if (index > -1) {
+            saveRequestedListeners.splice(index, 1);
+        }
+    };
+}
+
+// Message listener for "Show in Tektite Graph": select the node at this line (1-based) of the file
+type ShowInGraphCallback = (location: { path: string; line: number }) => void;
+const showInGraphListeners: ShowInGraphCallback[] = [];
+
+export function onShowInGraph(callback: ShowInGraphCallback): () => void {
+    showInGraphListeners.push(callback);
+
+    return () => {
+        const index = showInGraphListeners.indexOf(callback);
+        if (index > -1) {
+            showInGraphListeners.splice(index, 1);
+        }
+    };
+}
+
+// Message listeners for follow mode: whether it is on, and where the editor cursor settled (1-based line)
+type FollowEditorChangedCallback = (enabled: boolean) => void;
+const followEditorChangedListeners: FollowEditorChangedCallback[] = [];
+
+export function onFollowEditorChanged(callback: FollowEditorChangedCallback): () => void {
+    followEditorChangedListeners.push(callback);
+
+    return () => {
+        const index = followEditorChangedListeners.indexOf(callback);
+        if (index > -1) {
+            followEditorChangedListeners.splice(index, 1);
+        }
+    };
+}
+
+type EditorCursorCallback = (location: { path: string; line: number }) => void;
+const editorCursorListeners: EditorCursorCallback[] = [];
+
+export function onEditorCursor(callback: EditorCursorCallback): () => void {
+    editorCursorListeners.push(callback);
+
+    return () => {
+        const index = editorCursorListeners.indexOf(callback);
+        if (index > -1) {
+            editorCursorListeners.splice(index, 1);
+        }
+    };
+}
+
+// Message listener for files created, deleted, renamed or changed on disk
+type WorkspaceFilesChangedCallback = (changes: WorkspaceFilesChanges) => void;
+const workspaceFilesChangedListeners: WorkspaceFilesChangedCallback[] = [];
+
+export function onWorkspaceFilesChanged(callback: WorkspaceFilesChangedCallback): () => void {
+    workspaceFilesChangedListeners.push(callback);
+
+    return () => {
+        const index = workspaceFilesChangedListeners.indexOf(callback);
+        if (index > -1) {
+            workspaceFilesChangedListeners.splice(index, 1);
+        }
+    };
+}
+
 // Set up file change listener
 if (typeof window !== 'undefined') {
     window.addEventListener('message', (event) => {
@@ -161,6 +469,55 @@ if (typeof window !== 'undefined') {
             const { path, content } = message.payload;
             fileChangeListeners.forEach(cb => cb(path, content));
         }
+
+        if (message.type === 'workspaceFilesBatch' && message.payload) {
+            workspaceFilesBatchListeners.forEach(cb => cb(message.payload));
+        }
+
+        if (message.type === 'workspaceFilesChanged' && message.payload) {
+            workspaceFilesChangedListeners.forEach(cb => cb(message.payload));
+        }
+
+        if (message.type === 'pythonOutput' && message.payload) {
+            const { runId, stream, text } = message.payload;
+            pythonOutputListeners.forEach(cb => cb(runId, stream, text));
+        }
+
+        if (message.type === 'pythonExit' && message.payload) {
+            pythonExitListeners.forEach(cb => cb(message.payload));
+        }
+
+        if (message.type === 'embeddingProgress' && message.payload) {
+            embeddingProgressListeners.forEach(cb => cb(message.payload));
+        }
+
+        if (message.type === 'embeddingsInvalidated') {
+            embeddingsInvalidatedListeners.forEach(cb => cb());
+        }
+
+        if (message.type === 'interpreterChanged' && message.payload) {
+            interpreterChangeListeners.forEach(cb => cb(message.payload));
+        }
+
+        if (message.type === 'fileSaved' && message.payload) {
+            fileSavedListeners.forEach(cb => cb(message.payload));
+        }
+
+        if (message.type === 'saveRequested' && message.payload) {
+            saveRequestedListeners.forEach(cb => cb(message.payload.all));
+        }
+
+        if (message.type === 'showInGraph' && message.payload) {
+            showInGraphListeners.forEach(cb => cb(message.payload));
+        }
+
+        if (message.type === 'followEditorChanged' && message.payload) {
+            followEditorChangedListeners.forEach(cb => cb(message.payload.enabled));
+        }
+
+        if (message.type === 'editorCursor' && message.payload) {
+            editorCursorListeners.forEach(cb => cb(message.payload));
+        }
     });
 }
 